@@ -0,0 +1,34 @@
+import type { ErrorFormat, Logger } from "./types";
+
+export type ResponderConfig = {
+  // How error responses are rendered unless a handler chooses otherwise
+  errorFormat: ErrorFormat;
+  // Receives unhandled errors, e.g. configure({ logger: pino() })
+  logger: Logger;
+  // Adds the original error to 500 bodies (default: NODE_ENV !== "production")
+  exposeErrors: boolean;
+  // Applied to every exposed message and stack, e.g. to mask credentials
+  redact?: (text: string) => string;
+};
+
+// Looks console up on every call so it can be swapped out (e.g. in tests)
+const consoleLogger: Logger = {
+  error: (obj, msg) => console.error(msg, obj),
+};
+
+// process is missing in some edge runtimes
+const isProduction = (): boolean =>
+  typeof process !== "undefined" && process.env?.NODE_ENV === "production";
+
+const config: ResponderConfig = {
+  errorFormat: "default",
+  logger: consoleLogger,
+  exposeErrors: !isProduction(),
+};
+
+// Sets library-wide defaults, e.g. configure({ errorFormat: "problem" })
+export const configure = (options: Partial<ResponderConfig>): void => {
+  Object.assign(config, options);
+};
+
+export const getConfig = (): Readonly<ResponderConfig> => config;
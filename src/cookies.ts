@@ -0,0 +1,36 @@
+import type { ResponseCookie } from "./types";
+
+// RFC 6265 token characters allowed in cookie names
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export const serializeCookie = (cookie: ResponseCookie): string => {
+  const { name, value } = cookie;
+  if (!COOKIE_NAME.test(name)) {
+    throw new TypeError(`Invalid cookie name: ${name}`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  if (cookie.domain) parts.push(`Domain=${cookie.domain}`);
+  parts.push(`Path=${cookie.path ?? "/"}`);
+  if (cookie.expires) parts.push(`Expires=${cookie.expires.toUTCString()}`);
+  if (cookie.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(cookie.maxAge)}`);
+  }
+  if (cookie.httpOnly) parts.push("HttpOnly");
+  // SameSite=None is only honoured on secure cookies
+  if (cookie.secure || cookie.sameSite === "none") parts.push("Secure");
+  if (cookie.sameSite) {
+    parts.push(
+      `SameSite=${cookie.sameSite[0].toUpperCase()}${cookie.sameSite.slice(1)}`
+    );
+  }
+  if (cookie.partitioned) parts.push("Partitioned");
+  if (cookie.priority) {
+    parts.push(
+      `Priority=${cookie.priority[0].toUpperCase()}${cookie.priority.slice(1)}`
+    );
+  }
+
+  return parts.join("; ");
+};
@@ -0,0 +1,155 @@
+import { mergeHeaderList, setHeaders } from "./headers";
+import type { Middleware } from "./middleware";
+
+export type CorsOrigin =
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((origin: string, request: Request) => boolean | Promise<boolean>);
+
+export type CorsOptions = {
+  // Allowed origins (default "*")
+  origin?: CorsOrigin;
+  // Default GET, HEAD, PUT, PATCH, POST, DELETE
+  methods?: string[];
+  // Allowed request headers (default: whatever the preflight asks for)
+  allowedHeaders?: string[];
+  exposedHeaders?: string[];
+  credentials?: boolean;
+  // Seconds browsers may cache the preflight
+  maxAge?: number;
+};
+
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "POST", "DELETE"];
+
+const isOriginAllowed = async (
+  allowed: CorsOrigin,
+  origin: string,
+  request: Request
+): Promise<boolean> => {
+  if (typeof allowed === "function") return allowed(origin, request);
+  const list = Array.isArray(allowed) ? allowed : [allowed];
+  return list.some((item) =>
+    typeof item === "string"
+      ? item === "*" || item === origin
+      : item.test(origin)
+  );
+};
+
+const allowsAnyOrigin = (allowed: CorsOrigin): boolean =>
+  allowed === "*" || (Array.isArray(allowed) && allowed.includes("*"));
+
+// Echoing any origin with credentials would let every site make credentialed
+// reads, so credentials need an explicit list, RegExp or function
+const assertCorsOptions = (options: CorsOptions): void => {
+  if (options.credentials && allowsAnyOrigin(options.origin ?? "*")) {
+    throw new TypeError(
+      'CORS credentials require an explicit origin list, RegExp or function, not "*"'
+    );
+  }
+};
+
+// Headers shared by preflight and actual responses; empty when the origin is not allowed
+const originHeaders = async (
+  request: Request,
+  options: CorsOptions
+): Promise<Record<string, string>> => {
+  const { origin: allowed = "*", credentials = false } = options;
+  const origin = request.headers.get("origin");
+  if (!origin || !(await isOriginAllowed(allowed, origin, request))) return {};
+
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Origin": allowed === "*" ? "*" : origin,
+  };
+  if (credentials) headers["Access-Control-Allow-Credentials"] = "true";
+  return headers;
+};
+
+// Responses differ per Origin unless every origin gets "*"
+const varyOn = (options: CorsOptions): string[] =>
+  (options.origin ?? "*") === "*" ? [] : ["Origin"];
+
+export const applyCors = async (
+  response: Response,
+  request: Request,
+  options: CorsOptions = {}
+): Promise<Response> => {
+  assertCorsOptions(options);
+  const headers = await originHeaders(request, options);
+
+  if (
+    headers["Access-Control-Allow-Origin"] &&
+    options.exposedHeaders?.length
+  ) {
+    headers["Access-Control-Expose-Headers"] =
+      options.exposedHeaders.join(", ");
+  }
+  const vary = varyOn(options);
+  if (vary.length > 0) {
+    headers.Vary = mergeHeaderList(response.headers.get("vary"), vary);
+  }
+
+  return setHeaders(response, headers);
+};
+
+// OPTIONS handler answering CORS preflight requests with 204
+export const corsPreflight = (options: CorsOptions = {}) => {
+  assertCorsOptions(options);
+
+  return async (request: Request): Promise<Response> => {
+    const headers = await originHeaders(request, options);
+    const vary = [...varyOn(options)];
+
+    if (headers["Access-Control-Allow-Origin"]) {
+      headers["Access-Control-Allow-Methods"] = (
+        options.methods ?? DEFAULT_METHODS
+      ).join(", ");
+
+      const requested = request.headers.get("access-control-request-headers");
+      if (options.allowedHeaders) {
+        headers["Access-Control-Allow-Headers"] =
+          options.allowedHeaders.join(", ");
+      } else if (requested) {
+        headers["Access-Control-Allow-Headers"] = requested;
+        vary.push("Access-Control-Request-Headers");
+      }
+
+      if (options.maxAge !== undefined) {
+        headers["Access-Control-Max-Age"] = String(options.maxAge);
+      }
+    }
+    if (vary.length > 0) headers.Vary = mergeHeaderList(null, vary);
+
+    return new Response(null, { status: 204, headers });
+  };
+};
+
+// Wraps a route handler: withCors({ origin: "https://app.example.com" })(withHandler(fn)).
+// Error responses produced by withHandler are decorated too.
+export const withCors = (options: CorsOptions = {}) => {
+  assertCorsOptions(options);
+
+  return <TRest extends any[]>(
+      handler: (
+        request: Request,
+        ...rest: TRest
+      ) => Response | Promise<Response>
+    ) =>
+    async (request: Request, ...rest: TRest): Promise<Response> =>
+      applyCors(await handler(request, ...rest), request, options);
+};
+
+// Same as withCors for createHandler() pipelines; also answers preflights
+export const corsMiddleware = (options: CorsOptions = {}): Middleware => {
+  const preflight = corsPreflight(options);
+
+  return async (request, _ctx, next) => {
+    if (
+      request.method === "OPTIONS" &&
+      request.headers.has("access-control-request-method")
+    ) {
+      return preflight(request);
+    }
+    return applyCors(await next(), request, options);
+  };
+};
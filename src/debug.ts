@@ -0,0 +1,36 @@
+// Internal: describes unhandled errors for the debug field (not part of the public API)
+import { getConfig } from "./config";
+import type { ErrorDebugInfo } from "./types";
+
+// Guards against cyclic or absurdly deep cause chains
+const MAX_CAUSE_DEPTH = 10;
+
+const describe = (
+  err: unknown,
+  redact: (text: string) => string,
+  depth: number
+): ErrorDebugInfo => {
+  if (!(err instanceof Error)) {
+    return { name: typeof err, message: redact(String(err)) };
+  }
+
+  const info: ErrorDebugInfo = {
+    name: err.name,
+    message: redact(err.message),
+  };
+  if (err.stack) info.stack = redact(err.stack);
+  if (err.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    info.cause = describe(err.cause, redact, depth + 1);
+  }
+  return info;
+};
+
+// The error's debug info when errors are exposed, otherwise undefined
+export const debugInfo = (
+  err: unknown,
+  exposeErrors = getConfig().exposeErrors
+): ErrorDebugInfo | undefined => {
+  if (!exposeErrors) return undefined;
+  const { redact = (text: string) => text } = getConfig();
+  return describe(err, redact, 0);
+};
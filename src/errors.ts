@@ -1,9 +1,194 @@
-export class ApiError extends Error {
+export type ApiErrorOptions<TCode extends string = string> = {
+  // Stable machine-readable code, e.g. "USER_NOT_FOUND"
+  code?: TCode;
+  // Extra payload serialized next to the message
+  details?: unknown;
+  // Problem details members, used when errors are sent as problem+json
+  type?: string;
+  title?: string;
+  instance?: string;
+};
+
+export class ApiError<TCode extends string = string> extends Error {
   status: number;
+  code?: TCode;
+  details?: unknown;
+  type?: string;
+  title?: string;
+  instance?: string;
 
-  constructor(message: string, status = 400) {
+  constructor(
+    message: string,
+    status = 400,
+    options: ApiErrorOptions<TCode> = {}
+  ) {
     super(message);
     this.name = "ApiError";
     this.status = status;
+    this.code = options.code;
+    this.details = options.details;
+    this.type = options.type;
+    this.title = options.title;
+    this.instance = options.instance;
+  }
+}
+
+// Status-specific errors, so services can throw without status numbers
+
+export class BadRequestError extends ApiError {
+  constructor(message = "Bad Request", options: ApiErrorOptions = {}) {
+    super(message, 400, options);
+    this.name = "BadRequestError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Unauthorized", options: ApiErrorOptions = {}) {
+    super(message, 401, options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = "Forbidden", options: ApiErrorOptions = {}) {
+    super(message, 403, options);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "Not Found", options: ApiErrorOptions = {}) {
+    super(message, 404, options);
+    this.name = "NotFoundError";
   }
 }
+
+export class MethodNotAllowedError extends ApiError {
+  constructor(message = "Method Not Allowed", options: ApiErrorOptions = {}) {
+    super(message, 405, options);
+    this.name = "MethodNotAllowedError";
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = "Conflict", options: ApiErrorOptions = {}) {
+    super(message, 409, options);
+    this.name = "ConflictError";
+  }
+}
+
+export class GoneError extends ApiError {
+  constructor(message = "Gone", options: ApiErrorOptions = {}) {
+    super(message, 410, options);
+    this.name = "GoneError";
+  }
+}
+
+export class PreconditionFailedError extends ApiError {
+  constructor(message = "Precondition Failed", options: ApiErrorOptions = {}) {
+    super(message, 412, options);
+    this.name = "PreconditionFailedError";
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message = "Content Too Large", options: ApiErrorOptions = {}) {
+    super(message, 413, options);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+export class UnsupportedMediaTypeError extends ApiError {
+  constructor(
+    message = "Unsupported Media Type",
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, 415, options);
+    this.name = "UnsupportedMediaTypeError";
+  }
+}
+
+export class UnprocessableError extends ApiError {
+  constructor(
+    message = "Unprocessable Content",
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, 422, options);
+    this.name = "UnprocessableError";
+  }
+}
+
+export class TooManyRequestsError extends ApiError {
+  constructor(message = "Too Many Requests", options: ApiErrorOptions = {}) {
+    super(message, 429, options);
+    this.name = "TooManyRequestsError";
+  }
+}
+
+export class InternalServerError extends ApiError {
+  constructor(
+    message = "Internal Server Error",
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, 500, options);
+    this.name = "InternalServerError";
+  }
+}
+
+export class NotImplementedError extends ApiError {
+  constructor(message = "Not Implemented", options: ApiErrorOptions = {}) {
+    super(message, 501, options);
+    this.name = "NotImplementedError";
+  }
+}
+
+export class ServiceUnavailableError extends ApiError {
+  constructor(message = "Service Unavailable", options: ApiErrorOptions = {}) {
+    super(message, 503, options);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+export type ErrorDefinition = {
+  status: number;
+  message: string;
+  type?: string;
+  title?: string;
+};
+
+// Per-throw overrides for a catalog entry
+export type ErrorFactoryOptions = Omit<ApiErrorOptions, "code"> & {
+  message?: string;
+};
+
+export type ErrorCatalog<TDefs extends Record<string, ErrorDefinition>> = {
+  [K in keyof TDefs & string]: (options?: ErrorFactoryOptions) => ApiError<K>;
+};
+
+// Union of the codes in a catalog: ErrorCode<typeof errors>
+export type ErrorCode<TCatalog> = keyof TCatalog & string;
+
+// Builds throwable factories keyed by code:
+// const errors = defineErrors({ USER_NOT_FOUND: { status: 404, message: "User not found" } })
+// throw errors.USER_NOT_FOUND({ details: { id } })
+export const defineErrors = <
+  const TDefs extends Record<string, ErrorDefinition>
+>(
+  definitions: TDefs
+): ErrorCatalog<TDefs> => {
+  const catalog = {} as Record<
+    string,
+    (options?: ErrorFactoryOptions) => ApiError
+  >;
+
+  for (const [code, definition] of Object.entries(definitions)) {
+    catalog[code] = ({ message, ...options } = {}) =>
+      new ApiError(message ?? definition.message, definition.status, {
+        type: definition.type,
+        title: definition.title,
+        ...options,
+        code,
+      });
+  }
+  return catalog as ErrorCatalog<TDefs>;
+};
@@ -0,0 +1,170 @@
+import { ApiError, PreconditionFailedError } from "./errors";
+
+export type ResourceState = {
+  etag?: string;
+  lastModified?: Date | string;
+};
+
+export type PreconditionOptions = {
+  // Answer 428 when a write arrives without If-Match / If-Unmodified-Since
+  required?: boolean;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+// Strong ETag from the SHA-256 of the serialized body (Web Crypto)
+export const generateETag = async (
+  body: string | ArrayBuffer | Uint8Array
+): Promise<string> => {
+  const bytes =
+    typeof body === "string" ? new TextEncoder().encode(body) : body;
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return `"${toBase64Url(new Uint8Array(digest))}"`;
+};
+
+const parseTags = (header: string): string[] =>
+  header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+const opaque = (tag: string): string => tag.replace(/^W\//, "");
+
+const toTime = (value: Date | string | null | undefined): number =>
+  value ? new Date(value).getTime() : NaN;
+
+// Whole seconds, since HTTP dates have no milliseconds
+const seconds = (time: number): number => Math.floor(time / 1000);
+
+const notModified = (response: Response): Response => {
+  const headers = new Headers(response.headers);
+  headers.delete("content-type");
+  headers.delete("content-length");
+  return new Response(null, { status: 304, headers });
+};
+
+const STREAM_TYPES = ["text/event-stream", "application/x-ndjson"];
+
+// Document types that are sent whole, so buffering them to hash is safe even
+// without a Content-Length
+const DOCUMENT_TYPE = /^(?:application\/(?:[\w.-]+\+)?(?:json|xml)|text\/)/;
+
+// Event streams never end on their own, so they are always passed through
+const isEventStream = (response: Response): boolean => {
+  const type = response.headers.get("content-type")?.toLowerCase() ?? "";
+  return STREAM_TYPES.some((stream) => type.startsWith(stream));
+};
+
+// Bodies of unknown length may be arbitrarily large, so they are only hashed
+// when they are documents
+const hasUnknownLength = (response: Response): boolean =>
+  response.body !== null &&
+  response.headers.get("content-length") === null &&
+  !DOCUMENT_TYPE.test(response.headers.get("content-type") ?? "");
+
+// Adds an ETag to successful GET/HEAD responses and answers If-None-Match /
+// If-Modified-Since with 304 Not Modified
+export const conditionalResponse = async (
+  request: Request,
+  response: Response
+): Promise<Response> => {
+  const method = request.method.toUpperCase();
+  if (
+    (method !== "GET" && method !== "HEAD") ||
+    response.status !== 200 ||
+    isEventStream(response)
+  ) {
+    return response;
+  }
+
+  let etag = response.headers.get("etag");
+  if (!etag && hasUnknownLength(response)) return response;
+
+  if (!etag) {
+    etag = await generateETag(await response.clone().arrayBuffer());
+    try {
+      response.headers.set("ETag", etag);
+    } catch {
+      // Immutable headers (e.g. a fetch response): copy before decorating
+      response = new Response(response.body, response);
+      response.headers.set("ETag", etag);
+    }
+  }
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    // If-None-Match uses weak comparison and takes precedence over If-Modified-Since
+    const tags = parseTags(ifNoneMatch);
+    const matches =
+      tags.includes("*") || tags.some((tag) => opaque(tag) === opaque(etag!));
+    return matches ? notModified(response) : response;
+  }
+
+  const since = toTime(request.headers.get("if-modified-since"));
+  const modified = toTime(response.headers.get("last-modified"));
+  if (
+    !isNaN(since) &&
+    !isNaN(modified) &&
+    seconds(modified) <= seconds(since)
+  ) {
+    return notModified(response);
+  }
+
+  return response;
+};
+
+// Rejects stale writes: throws 412 when If-Match / If-Unmodified-Since don't
+// hold for the current resource. Pass the current state, or the Response a GET
+// would return so its ETag matches the one clients received.
+export const checkPreconditions = async (
+  request: Request,
+  current: Response | ResourceState,
+  options: PreconditionOptions = {}
+): Promise<void> => {
+  const ifMatch = request.headers.get("if-match");
+  const ifUnmodifiedSince = request.headers.get("if-unmodified-since");
+
+  if (ifMatch === null && ifUnmodifiedSince === null) {
+    if (options.required) {
+      throw new ApiError("Precondition Required", 428);
+    }
+    return;
+  }
+
+  let state: ResourceState;
+  if (current instanceof Response) {
+    state = {
+      etag:
+        current.headers.get("etag") ??
+        (await generateETag(await current.clone().arrayBuffer())),
+      lastModified: current.headers.get("last-modified") ?? undefined,
+    };
+  } else {
+    state = current;
+  }
+
+  if (ifMatch !== null) {
+    // If-Match uses strong comparison, so weak tags never match
+    const tags = parseTags(ifMatch);
+    const matches =
+      tags.includes("*") ||
+      (state.etag !== undefined &&
+        !state.etag.startsWith("W/") &&
+        tags.includes(state.etag));
+    if (!matches) throw new PreconditionFailedError();
+    return;
+  }
+
+  const since = toTime(ifUnmodifiedSince);
+  const modified = toTime(state.lastModified);
+  if (!isNaN(since) && !isNaN(modified) && seconds(modified) > seconds(since)) {
+    throw new PreconditionFailedError();
+  }
+};
@@ -1,69 +1,456 @@
 import { ApiError } from "./errors";
-import type { ApiResponse, ApiSuccess, ApiErrorShape } from "./types";
+import { ValidationError } from "./validate";
+import { getConfig } from "./config";
+import { formatProblem, statusTitle, wantsProblem } from "./problem";
+import { formatPagination, paginationLinks } from "./pagination";
+import { applyOptions, setHeaders } from "./headers";
+import { debugInfo } from "./debug";
+import { DEFAULT_REQUEST_ID_HEADER, getRequestId } from "./request-id";
+import { conditionalResponse } from "./etag";
+import type { PaginationInput } from "./pagination";
+import type {
+  ApiResponse,
+  ApiSuccess,
+  ApiErrorShape,
+  ErrorExtras,
+  HandlerOptions,
+  ProblemDetails,
+  ResponderOptions,
+  ResponseMeta,
+  ResponseOptions,
+} from "./types";
 
-export const formatError = (message: string): ApiErrorShape => ({
+// Options for shortcuts whose status is fixed
+type ShortcutOptions = Omit<ResponseOptions, "status">;
+
+export type ErrorResponseOptions = ResponseOptions & ErrorExtras;
+
+type ErrorShortcutOptions = Omit<ErrorResponseOptions, "status">;
+
+export type CreatedOptions = ShortcutOptions & {
+  // Sets the Location header
+  location?: string | URL;
+};
+
+const toOptions = <T extends ResponseOptions>(
+  statusOrOptions: number | T,
+  defaultStatus: number
+): T & { status: number } =>
+  typeof statusOrOptions === "number"
+    ? ({ status: statusOrOptions } as T & { status: number })
+    : { ...statusOrOptions, status: statusOrOptions.status ?? defaultStatus };
+
+export const formatError = (
+  message: string,
+  fields?: Record<string, string[]>,
+  extras: ErrorExtras = {}
+): ApiErrorShape => ({
   success: false,
   error: message,
+  ...Object.fromEntries(
+    Object.entries(extras).filter(([_, value]) => value !== undefined)
+  ),
+  ...(fields && Object.keys(fields).length > 0 ? { fields } : {}),
 });
 
-export const toResponse = (obj: ApiResponse, status = 200): Response => {
+export const toResponse = (
+  obj: ApiResponse,
+  statusOrOptions: number | ResponseOptions = 200
+): Response => {
+  const { status, statusText, ...options } = toOptions(statusOrOptions, 200);
   // JSON stringify using stable formatting
   const body = JSON.stringify(obj);
-  return new Response(body, {
-    status,
-    headers: {
-      "Content-Type": "application/json",
-    },
+  const headers = new Headers({
+    "Content-Type": "application/json",
   });
+  applyOptions(headers, options);
+  return new Response(body, { status, statusText, headers });
 };
 
-// Helper that accepts either a data object (for success) or an ApiError
-export const success = <T = unknown>(data: T, status = 200) =>
-  toResponse(formatSuccess(data), status);
-
-export const error = (message: string, status = 400) =>
-  toResponse(formatError(message), status);
-
-export const formatSuccess = <T = unknown>(data: T): ApiSuccess<T> => ({
+export const formatSuccess = <T = unknown>(
+  data: T,
+  meta?: ResponseMeta
+): ApiSuccess<T> => ({
   success: true,
   data,
+  ...(meta ? { meta } : {}),
 });
 
-// convenience shortcuts
-export const created = <T = unknown>(data: T) => success(data, 201);
-export const unauthorized = (message = "Unauthorized") => error(message, 401);
-export const forbidden = (message = "Forbidden") => error(message, 403);
-export const notFound = (message = "Not Found") => error(message, 404);
-
-// Wrapper to be used in route handlers (so you can throw ApiError and let withHandler convert it)
-export const withHandler = <
-  TArgs extends any[],
-  TResult extends Response | ApiResponse | Promise<Response | ApiResponse>
->(
-  handler: (...args: TArgs) => TResult
+// Builds a bound set of helpers around a custom envelope, e.g.
+// createResponder({ formatSuccess: (data) => ({ ok: true, result: data }) })
+export const createResponder = <TSuccess = ApiSuccess, TError = ApiErrorShape>(
+  options: ResponderOptions<TSuccess, TError> = {}
 ) => {
-  return async (...args: TArgs): Promise<Response> => {
-    try {
-      const result = await handler(...args);
+  const envelopeSuccess =
+    options.formatSuccess ??
+    ((data: unknown, _status: number, meta?: ResponseMeta) =>
+      formatSuccess(data, meta) as unknown as TSuccess);
+  const envelopeError =
+    options.formatError ??
+    ((
+      message: string,
+      _status: number,
+      fields?: Record<string, string[]>,
+      extras?: ErrorExtras
+    ) => formatError(message, fields, extras) as unknown as TError);
+  const isError =
+    options.isError ??
+    ((body: TSuccess | TError) => (body as any).success === false);
 
-      if (result instanceof Response) return result;
+  // A null content type sends an empty body (e.g. 204)
+  const send = (
+    body: unknown,
+    init: ResponseOptions & { status: number },
+    contentType: string | null = "application/json"
+  ): Response => {
+    const { status, statusText, ...rest } = init;
+    const headers = new Headers(
+      typeof options.headers === "function"
+        ? options.headers()
+        : options.headers
+    );
+    if (contentType) headers.set("Content-Type", contentType);
+    applyOptions(headers, rest);
+    return new Response(contentType ? JSON.stringify(body) : null, {
+      status,
+      statusText,
+      headers,
+    });
+  };
 
-      // result is an ApiResponse object
-      // If it's a success shape, default 200; if error shape, choose 400
-      if ((result as any).success === false) {
-        // error shape
-        return toResponse(result as ApiErrorShape, 400);
-      }
+  const respond = (
+    obj: TSuccess | TError,
+    statusOrOptions: number | ResponseOptions = 200
+  ): Response => send(obj, toOptions(statusOrOptions, 200));
+
+  // Builds an error response in the given format; fields and problem members
+  // are only included when present. Error extras (code, details, requestId,
+  // debug, issues) become problem extensions.
+  const errorResponse = (
+    asProblem: boolean,
+    message: string,
+    init: ResponseOptions & { status: number },
+    fields?: Record<string, string[]>,
+    members: Partial<ProblemDetails> & ErrorExtras = {}
+  ): Response => {
+    const { status } = init;
+    if (!asProblem) {
+      const { code, details, requestId, debug, issues } = members;
+      const extras = { code, details, requestId, debug, issues };
+      return send(envelopeError(message, status, fields, extras), init);
+    }
+
+    const hasFields = fields && Object.keys(fields).length > 0;
+    const defined = Object.fromEntries(
+      Object.entries(members).filter(([_, value]) => value !== undefined)
+    );
+    return send(
+      formatProblem(status, {
+        detail: message,
+        ...defined,
+        ...(hasFields ? { fields } : {}),
+      }),
+      init,
+      "application/problem+json"
+    );
+  };
+
+  const errorFormat = () => options.errorFormat ?? getConfig().errorFormat;
+
+  // Helper that accepts either a data object (for success) or an ApiError
+  const success = <T = unknown>(
+    data: T,
+    statusOrOptions: number | ResponseOptions = 200
+  ) => {
+    const init = toOptions(statusOrOptions, 200);
+    return send(envelopeSuccess(data, init.status), init);
+  };
 
-      return toResponse(result as ApiSuccess, 200);
-    } catch (err: any) {
-      if (err instanceof ApiError) {
-        return error(err.message, err.status);
+  // Success response with meta.pagination and RFC 8288 Link headers
+  const paginated = <T = unknown>(
+    items: T[],
+    pagination: PaginationInput,
+    responseOptions: ResponseOptions = {}
+  ) => {
+    const init = toOptions(responseOptions, 200);
+    const link = paginationLinks(pagination);
+    const meta = { pagination: formatPagination(pagination) };
+    const headers = new Headers(init.headers);
+    if (link) headers.set("Link", link);
+    return send(envelopeSuccess(items, init.status, meta), {
+      ...init,
+      headers,
+    });
+  };
+
+  const error = (
+    message: string,
+    statusOrOptions: number | ErrorResponseOptions = 400,
+    fields?: Record<string, string[]>
+  ) => {
+    const { code, details, requestId, debug, issues, ...init } = toOptions(
+      statusOrOptions,
+      400
+    );
+    return errorResponse(errorFormat() === "problem", message, init, fields, {
+      code,
+      details,
+      requestId,
+      debug,
+      issues,
+    });
+  };
+
+  const created = <T = unknown>(
+    data: T,
+    locationOrOptions: string | URL | CreatedOptions = {}
+  ) => {
+    const { location, ...rest } =
+      typeof locationOrOptions === "object" &&
+      !(locationOrOptions instanceof URL)
+        ? locationOrOptions
+        : { location: locationOrOptions };
+    const headers = new Headers(rest.headers);
+    if (location) headers.set("Location", String(location));
+    return success(data, { ...rest, headers, status: 201 });
+  };
+
+  const accepted = <T = unknown>(data: T, options: ShortcutOptions = {}) =>
+    success(data, { ...options, status: 202 });
+
+  // 204 with an empty body and no Content-Type
+  const noContent = (options: ShortcutOptions = {}) =>
+    send(undefined, { ...options, status: 204 }, null);
+
+  // Error shortcut for a fixed status, defaulting the message to its reason phrase
+  const errorShortcut =
+    (status: number) =>
+    (message = statusTitle(status), options: ErrorShortcutOptions = {}) =>
+      error(message, { ...options, status });
+
+  // Wrapper to be used in route handlers (so you can throw ApiError and let withHandler convert it)
+  const withHandler = <
+    TArgs extends any[],
+    TResult extends
+      | Response
+      | TSuccess
+      | TError
+      | Promise<Response | TSuccess | TError>
+  >(
+    handler: (...args: TArgs) => TResult,
+    handlerOptions: HandlerOptions = {}
+  ) => {
+    const {
+      validationStatus = options.validationStatus ?? 422,
+      etag = options.etag ?? false,
+      requestId: exposeRequestId = options.requestId ?? false,
+      onRequest = options.onRequest,
+      onResponse = options.onResponse,
+      onError = options.onError,
+      exposeErrors = options.exposeErrors,
+    } = handlerOptions;
+    const requestIdOptions =
+      typeof exposeRequestId === "object" ? exposeRequestId : {};
+
+    return async (...args: TArgs): Promise<Response> => {
+      const startedAt = Date.now();
+      const request = args[0] instanceof Request ? args[0] : undefined;
+      const asProblem = wantsProblem(
+        handlerOptions.errorFormat ?? errorFormat(),
+        request
+      );
+      const instance = request ? new URL(request.url).pathname : undefined;
+      const requestId = getRequestId(request, requestIdOptions);
+      // Only sent to the client when the requestId option is on
+      const exposedId = exposeRequestId ? requestId : undefined;
+      const conditional = (response: Response) =>
+        etag && request ? conditionalResponse(request, response) : response;
+
+      const log = (obj: object, msg: string) =>
+        (handlerOptions.logger ?? options.logger ?? getConfig().logger).error(
+          { ...obj, requestId, method: request?.method, url: request?.url },
+          msg
+        );
+
+      // Hooks are for observability, so a failing hook is logged and never
+      // replaces the response
+      const callHook = async <TEvent>(
+        hook: ((event: TEvent) => void | Promise<void>) | undefined,
+        event: TEvent
+      ): Promise<void> => {
+        try {
+          await hook?.(event);
+        } catch (err) {
+          log({ err }, "Error in API handler hook");
+        }
+      };
+
+      // Maps a thrown error to a response; unknown errors are logged and hidden
+      const fromError = (err: unknown): Response => {
+        if (err instanceof ApiError) {
+          return errorResponse(
+            asProblem,
+            err.message,
+            { status: err.status },
+            undefined,
+            {
+              type: err.type,
+              title: err.title,
+              instance: err.instance ?? instance,
+              code: err.code,
+              details: err.details,
+              requestId: exposedId,
+            }
+          );
+        }
+
+        if (err instanceof ValidationError) {
+          return errorResponse(
+            asProblem,
+            err.message,
+            { status: validationStatus },
+            err.fields,
+            {
+              instance,
+              requestId: exposedId,
+              issues: err.issues.length > 0 ? err.issues : undefined,
+            }
+          );
+        }
+
+        // Unknown error
+        log({ err }, "Unhandled error in API handler");
+        return errorResponse(
+          asProblem,
+          "Internal Server Error",
+          { status: 500 },
+          undefined,
+          {
+            instance,
+            requestId: exposedId,
+            debug: debugInfo(err, exposeErrors),
+          }
+        );
+      };
+
+      const run = async (): Promise<Response> => {
+        try {
+          const result = (await handler(...args)) as
+            | Response
+            | TSuccess
+            | TError;
+
+          if (result instanceof Response) return await conditional(result);
+
+          // result is an envelope object
+          // If it's a success shape, default 200; if error shape, choose 400
+          if (isError(result)) {
+            // Custom error envelopes are sent as-is
+            if (!asProblem || options.formatError)
+              return send(result, { status: 400 });
+
+            const {
+              error: message,
+              fields,
+              code,
+              details,
+            } = result as ApiErrorShape;
+            return errorResponse(true, message, { status: 400 }, fields, {
+              instance,
+              code,
+              details,
+              requestId: exposedId,
+            });
+          }
+
+          return await conditional(send(result, { status: 200 }));
+        } catch (err) {
+          const response = fromError(err);
+          await callHook(onError, {
+            request,
+            requestId,
+            error: err,
+            status: response.status,
+            durationMs: Date.now() - startedAt,
+          });
+          return response;
+        }
+      };
+
+      await callHook(onRequest, { request, requestId });
+      let response = await run();
+      if (exposedId) {
+        response = setHeaders(response, {
+          [requestIdOptions.header ?? DEFAULT_REQUEST_ID_HEADER]: exposedId,
+        });
       }
+      await callHook(onResponse, {
+        request,
+        requestId,
+        response,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    };
+  };
 
-      // Unknown error
-      console.error("Unhandled error in API handler", err);
-      return error("Internal Server Error", 500);
-    }
+  return {
+    formatSuccess: envelopeSuccess,
+    formatError: envelopeError,
+    toResponse: respond,
+    success,
+    error,
+    paginated,
+    // convenience shortcuts
+    created,
+    accepted,
+    noContent,
+    badRequest: errorShortcut(400),
+    unauthorized: errorShortcut(401),
+    forbidden: errorShortcut(403),
+    notFound: errorShortcut(404),
+    methodNotAllowed: errorShortcut(405),
+    conflict: errorShortcut(409),
+    gone: errorShortcut(410),
+    preconditionFailed: errorShortcut(412),
+    payloadTooLarge: errorShortcut(413),
+    unsupportedMediaType: errorShortcut(415),
+    unprocessable: errorShortcut(422),
+    tooManyRequests: errorShortcut(429),
+    internalError: errorShortcut(500),
+    notImplemented: errorShortcut(501),
+    serviceUnavailable: errorShortcut(503),
+    withHandler,
   };
 };
+
+export type Responder<
+  TSuccess = ApiSuccess,
+  TError = ApiErrorShape
+> = ReturnType<typeof createResponder<TSuccess, TError>>;
+
+const defaultResponder = createResponder();
+
+export const success = defaultResponder.success;
+export const error = defaultResponder.error;
+export const paginated = defaultResponder.paginated;
+export const created = defaultResponder.created;
+export const accepted = defaultResponder.accepted;
+export const noContent = defaultResponder.noContent;
+export const badRequest = defaultResponder.badRequest;
+export const unauthorized = defaultResponder.unauthorized;
+export const forbidden = defaultResponder.forbidden;
+export const notFound = defaultResponder.notFound;
+export const methodNotAllowed = defaultResponder.methodNotAllowed;
+export const conflict = defaultResponder.conflict;
+export const gone = defaultResponder.gone;
+export const preconditionFailed = defaultResponder.preconditionFailed;
+export const payloadTooLarge = defaultResponder.payloadTooLarge;
+export const unsupportedMediaType = defaultResponder.unsupportedMediaType;
+export const unprocessable = defaultResponder.unprocessable;
+export const tooManyRequests = defaultResponder.tooManyRequests;
+export const internalError = defaultResponder.internalError;
+export const notImplemented = defaultResponder.notImplemented;
+export const serviceUnavailable = defaultResponder.serviceUnavailable;
+export const withHandler = defaultResponder.withHandler;
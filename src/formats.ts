@@ -0,0 +1,117 @@
+// Internal: string format checks behind the built-in format rules
+// (not part of the public API)
+
+// Format rules that apply to strings, e.g. "uuid" or "uuid?"
+export type StringFormat =
+  | "email"
+  | "url"
+  | "uuid"
+  | "date"
+  | "datetime"
+  | "ipv4"
+  | "ipv6"
+  | "hostname"
+  | "hex"
+  | "base64"
+  | "slug"
+  | "phone"
+  | "json"
+  | "cuid";
+
+// The HTML spec's email grammar, but requiring a dot in the domain and
+// rejecting dots at the start, at the end or twice in a row in the local part
+const EMAIL_LOCAL =
+  /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const HOSTNAME_LABEL = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+
+const isHostname = (value: string): boolean =>
+  value.length <= 253 &&
+  value.split(".").every((label) => HOSTNAME_LABEL.test(label));
+
+const isEmail = (value: string): boolean => {
+  const at = value.lastIndexOf("@");
+  const local = value.slice(0, at);
+  const domain = value.slice(at + 1);
+  return (
+    at > 0 &&
+    local.length <= 64 &&
+    value.length <= 254 &&
+    EMAIL_LOCAL.test(local) &&
+    domain.includes(".") &&
+    isHostname(domain)
+  );
+};
+
+const isUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Versions 1-8 plus the nil UUID
+const UUID =
+  /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-0{4}-0{4}-0{4}-0{12})$/i;
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME =
+  /^(\d{4}-\d{2}-\d{2})T([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d)(?:\.\d+)?)?(?:Z|[+-](?:[01]\d|2[0-3]):[0-5]\d)$/i;
+
+// Rejects dates the Date constructor would roll over, such as 2024-02-30
+const isDate = (value: string): boolean => {
+  const match = DATE.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const isDateTime = (value: string): boolean => {
+  const match = DATETIME.exec(value);
+  return match !== null && isDate(match[1]);
+};
+
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4 = new RegExp(`^${IPV4_OCTET}(?:\\.${IPV4_OCTET}){3}$`);
+
+// The URL parser knows every IPv6 notation, including "::" and embedded IPv4
+const isIpv6 = (value: string): boolean =>
+  value.includes(":") &&
+  /^[0-9A-Fa-f:.]+$/.test(value) &&
+  isUrl(`http://[${value}]`);
+
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const isJson = (value: string): boolean => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formats: Record<StringFormat, (value: string) => boolean> = {
+  email: isEmail,
+  url: isUrl,
+  uuid: (value) => UUID.test(value),
+  date: isDate,
+  datetime: isDateTime,
+  ipv4: (value) => IPV4.test(value),
+  ipv6: isIpv6,
+  hostname: (value) => value.length > 0 && isHostname(value),
+  hex: (value) => /^[0-9A-Fa-f]+$/.test(value),
+  base64: (value) => value.length > 0 && BASE64.test(value),
+  slug: (value) => /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value),
+  // E.164: a plus sign and up to 15 digits, without a leading zero
+  phone: (value) => /^\+[1-9]\d{1,14}$/.test(value),
+  json: isJson,
+  // Version 1 CUIDs: "c" followed by 24 lowercase letters and digits
+  cuid: (value) => /^c[a-z0-9]{24}$/.test(value),
+};
+
+export const isStringFormat = (name: string): name is StringFormat =>
+  Object.prototype.hasOwnProperty.call(formats, name);
@@ -0,0 +1,59 @@
+// Internal helpers shared by the response wrappers (not part of the public API)
+import { serializeCookie } from "./cookies";
+import type { ResponseOptions } from "./types";
+
+// Applies ResponseOptions headers and cookies to a response's headers
+export const applyOptions = (
+  headers: Headers,
+  options: ResponseOptions
+): void => {
+  const extra = new Headers(options.headers);
+  extra.forEach((value, key) => {
+    if (key !== "set-cookie") headers.set(key, value);
+  });
+  // Each cookie is its own Set-Cookie header, so they are appended, not set
+  for (const cookie of extra.getSetCookie()) {
+    headers.append("Set-Cookie", cookie);
+  }
+  for (const cookie of options.cookies ?? []) {
+    headers.append("Set-Cookie", serializeCookie(cookie));
+  }
+};
+
+export const setHeaders = (
+  response: Response,
+  headers: Record<string, string>
+): Response => {
+  try {
+    for (const [key, value] of Object.entries(headers)) {
+      response.headers.set(key, value);
+    }
+    return response;
+  } catch {
+    // Some responses (e.g. from fetch) have immutable headers
+    const copy = new Response(response.body, response);
+    for (const [key, value] of Object.entries(headers)) {
+      copy.headers.set(key, value);
+    }
+    return copy;
+  }
+};
+
+// Adds values to a comma-separated header such as Vary without duplicating them
+export const mergeHeaderList = (
+  current: string | null,
+  values: string[]
+): string => {
+  const list = (current ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (list.includes("*")) return "*";
+
+  for (const value of values) {
+    if (!list.some((item) => item.toLowerCase() === value.toLowerCase())) {
+      list.push(value);
+    }
+  }
+  return list.join(", ");
+};
@@ -1,4 +1,16 @@
 export * from "./types";
 export * from "./errors";
+export * from "./config";
+export * from "./problem";
+export * from "./cookies";
 export * from "./format";
 export * from "./validate";
+export * from "./messages";
+export * from "./parse";
+export * from "./pagination";
+export * from "./middleware";
+export * from "./rate-limit";
+export * from "./cors";
+export * from "./etag";
+export * from "./stream";
+export * from "./request-id";
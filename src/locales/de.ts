@@ -0,0 +1,41 @@
+import type { ValidationMessages } from "../messages";
+
+export const de: ValidationMessages = {
+  required: "ist erforderlich",
+  string: "muss eine Zeichenkette sein",
+  number: "muss eine Zahl sein",
+  boolean: "muss ein Wahrheitswert sein",
+  object: "muss ein Objekt sein",
+  array: "muss eine Liste sein",
+  email: "muss eine gültige E-Mail-Adresse sein",
+  url: "muss eine gültige URL sein",
+  uuid: "muss eine gültige UUID sein",
+  integer: "muss eine ganze Zahl sein",
+  date: "muss ein gültiges Datum sein (JJJJ-MM-TT)",
+  datetime: "muss ein gültiger ISO-8601-Zeitpunkt sein",
+  ipv4: "muss eine gültige IPv4-Adresse sein",
+  ipv6: "muss eine gültige IPv6-Adresse sein",
+  hostname: "muss ein gültiger Hostname sein",
+  hex: "muss eine Hexadezimalzeichenkette sein",
+  base64: "muss eine gültige Base64-Zeichenkette sein",
+  slug: "muss ein gültiger Slug sein",
+  phone: "muss eine Telefonnummer im E.164-Format sein",
+  json: "muss gültiges JSON sein",
+  cuid: "muss eine gültige CUID sein",
+  min: "muss mindestens {min} sein",
+  max: "darf höchstens {max} sein",
+  after: "muss nach {after} liegen",
+  before: "muss vor {before} liegen",
+  multipleOf: "muss ein Vielfaches von {multipleOf} sein",
+  exclusiveMin: "muss größer als {exclusiveMin} sein",
+  minLength: "muss mindestens {minLength} Zeichen lang sein",
+  maxLength: "darf höchstens {maxLength} Zeichen lang sein",
+  minItems: "muss mindestens {minItems} Einträge haben",
+  maxItems: "darf höchstens {maxItems} Einträge haben",
+  pattern: "entspricht nicht dem erforderlichen Muster",
+  enum: "muss einer der folgenden Werte sein: {enum}",
+  custom: "ist ungültig",
+  timeout: "konnte nicht rechtzeitig geprüft werden",
+  invalid: "ist ungültig",
+  invalidData: "Daten müssen ein Objekt sein",
+};
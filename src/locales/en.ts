@@ -0,0 +1,41 @@
+import type { ValidationMessages } from "../messages";
+
+export const en: ValidationMessages = {
+  required: "is required",
+  string: "must be a string",
+  number: "must be a number",
+  boolean: "must be a boolean",
+  object: "must be an object",
+  array: "must be an array",
+  email: "must be a valid email",
+  url: "must be a valid URL",
+  uuid: "must be a valid UUID",
+  integer: "must be an integer",
+  date: "must be a valid date (YYYY-MM-DD)",
+  datetime: "must be a valid ISO 8601 date-time",
+  ipv4: "must be a valid IPv4 address",
+  ipv6: "must be a valid IPv6 address",
+  hostname: "must be a valid hostname",
+  hex: "must be a hexadecimal string",
+  base64: "must be a valid base64 string",
+  slug: "must be a valid slug",
+  phone: "must be a phone number in E.164 format",
+  json: "must be valid JSON",
+  cuid: "must be a valid CUID",
+  min: "must be at least {min}",
+  max: "must be at most {max}",
+  after: "must be after {after}",
+  before: "must be before {before}",
+  multipleOf: "must be a multiple of {multipleOf}",
+  exclusiveMin: "must be greater than {exclusiveMin}",
+  minLength: "must be at least {minLength} characters",
+  maxLength: "must be at most {maxLength} characters",
+  minItems: "must have at least {minItems} items",
+  maxItems: "must have at most {maxItems} items",
+  pattern: "does not match required pattern",
+  enum: "must be one of: {enum}",
+  custom: "failed custom validation",
+  timeout: "could not be validated in time",
+  invalid: "is invalid",
+  invalidData: "Data must be an object",
+};
@@ -0,0 +1,41 @@
+import type { ValidationMessages } from "../messages";
+
+export const es: ValidationMessages = {
+  required: "es obligatorio",
+  string: "debe ser una cadena de texto",
+  number: "debe ser un número",
+  boolean: "debe ser un valor booleano",
+  object: "debe ser un objeto",
+  array: "debe ser una lista",
+  email: "debe ser un correo electrónico válido",
+  url: "debe ser una URL válida",
+  uuid: "debe ser un UUID válido",
+  integer: "debe ser un número entero",
+  date: "debe ser una fecha válida (AAAA-MM-DD)",
+  datetime: "debe ser una fecha y hora ISO 8601 válida",
+  ipv4: "debe ser una dirección IPv4 válida",
+  ipv6: "debe ser una dirección IPv6 válida",
+  hostname: "debe ser un nombre de host válido",
+  hex: "debe ser una cadena hexadecimal",
+  base64: "debe ser una cadena base64 válida",
+  slug: "debe ser un slug válido",
+  phone: "debe ser un número de teléfono en formato E.164",
+  json: "debe ser JSON válido",
+  cuid: "debe ser un CUID válido",
+  min: "debe ser al menos {min}",
+  max: "debe ser como máximo {max}",
+  after: "debe ser posterior a {after}",
+  before: "debe ser anterior a {before}",
+  multipleOf: "debe ser múltiplo de {multipleOf}",
+  exclusiveMin: "debe ser mayor que {exclusiveMin}",
+  minLength: "debe tener al menos {minLength} caracteres",
+  maxLength: "debe tener como máximo {maxLength} caracteres",
+  minItems: "debe tener al menos {minItems} elementos",
+  maxItems: "debe tener como máximo {maxItems} elementos",
+  pattern: "no coincide con el patrón requerido",
+  enum: "debe ser uno de: {enum}",
+  custom: "no es válido",
+  timeout: "no se pudo validar a tiempo",
+  invalid: "no es válido",
+  invalidData: "Los datos deben ser un objeto",
+};
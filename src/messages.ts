@@ -0,0 +1,83 @@
+import { en } from "./locales/en";
+import { de } from "./locales/de";
+import { es } from "./locales/es";
+
+// Message keys, one per kind of validation failure
+export type ValidationMessageKey =
+  | "required"
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array"
+  | "email"
+  | "url"
+  | "uuid"
+  | "integer"
+  | "date"
+  | "datetime"
+  | "ipv4"
+  | "ipv6"
+  | "hostname"
+  | "hex"
+  | "base64"
+  | "slug"
+  | "phone"
+  | "json"
+  | "cuid"
+  | "min"
+  | "max"
+  | "after"
+  | "before"
+  | "multipleOf"
+  | "exclusiveMin"
+  | "minLength"
+  | "maxLength"
+  | "minItems"
+  | "maxItems"
+  | "pattern"
+  | "enum"
+  | "custom"
+  | "timeout"
+  | "invalid"
+  | "invalidData";
+
+// Templates may reference rule parameters, e.g. "must be at least {min}"
+export type ValidationMessages = Record<ValidationMessageKey, string>;
+
+export const DEFAULT_LOCALE = "en";
+
+const locales = new Map<string, Partial<ValidationMessages>>([
+  ["en", en],
+  ["de", de],
+  ["es", es],
+]);
+
+// Adds a locale or overrides messages of an existing one; missing keys fall
+// back to the base language ("pt" for "pt-BR") and then to English
+export const registerLocale = (
+  locale: string,
+  messages: Partial<ValidationMessages>
+): void => {
+  const key = locale.toLowerCase();
+  locales.set(key, { ...locales.get(key), ...messages });
+};
+
+export const getMessages = (
+  locale: string = DEFAULT_LOCALE
+): ValidationMessages => {
+  const key = locale.toLowerCase();
+  const [language] = key.split("-");
+  return { ...en, ...locales.get(language), ...locales.get(key) };
+};
+
+// Replaces {param} placeholders; lists are joined with ", "
+export const formatMessage = (
+  template: string,
+  params: Record<string, unknown> = {}
+): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in params)) return placeholder;
+    const value = params[name];
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
@@ -0,0 +1,88 @@
+import { withHandler } from "./format";
+import type { Responder } from "./format";
+import type { ApiResponse, HandlerOptions } from "./types";
+
+// Calls the rest of the pipeline, merging `added` into the context it sees
+export type Next<TAdded extends object> = {} extends TAdded
+  ? (added?: TAdded) => Promise<Response>
+  : (added: TAdded) => Promise<Response>;
+
+// Short-circuits by returning a Response without calling next, adds typed
+// context values through next({ ... }), and can change the response next returns
+export type Middleware<TCtx = {}, TAdded extends object = {}> = (
+  request: Request,
+  ctx: TCtx,
+  next: Next<TAdded>
+) => Response | Promise<Response>;
+
+export type HandlerResult =
+  | Response
+  | ApiResponse
+  | object
+  | Promise<Response | ApiResponse | object>;
+
+export type CreateHandlerOptions = HandlerOptions & {
+  // Renders responses and errors through a custom createResponder() envelope
+  responder?: Responder<any, any>;
+};
+
+export type HandlerBuilder<TRoute, TCtx> = {
+  use<TAdded extends object = {}>(
+    middleware: Middleware<TCtx, TAdded>
+  ): HandlerBuilder<TRoute, TCtx & TAdded>;
+  handle(
+    handler: (request: Request, ctx: TCtx) => HandlerResult
+  ): (request: Request, route?: TRoute) => Promise<Response>;
+};
+
+// Identity helper that types a reusable middleware
+export const defineMiddleware = <TAdded extends object = {}, TCtx = {}>(
+  middleware: Middleware<TCtx, TAdded>
+): Middleware<TCtx, TAdded> => middleware;
+
+const builder = <TRoute, TCtx>(
+  middlewares: Middleware<any, any>[],
+  options: CreateHandlerOptions
+): HandlerBuilder<TRoute, TCtx> => ({
+  use: (middleware) => builder([...middlewares, middleware], options),
+
+  handle: (handler) => {
+    const { responder, ...handlerOptions } = options;
+    const wrap = (responder?.withHandler ?? withHandler) as (
+      fn: (request: Request, ctx: any) => any,
+      options: HandlerOptions
+    ) => (request: Request, ctx: any) => Promise<Response>;
+
+    // Errors thrown by the handler become responses here, so middleware
+    // running after next() sees (and can decorate) error responses too.
+    // ETags and request/response hooks apply once, to the final response.
+    const inner = wrap(handler, {
+      ...handlerOptions,
+      etag: false,
+      onRequest: () => {},
+      onResponse: () => {},
+    });
+
+    return wrap(async (request: Request, route?: TRoute) => {
+      const dispatch = (index: number, ctx: any): Promise<Response> => {
+        if (index === middlewares.length) return inner(request, ctx);
+
+        let called = false;
+        const next = (added: object = {}) => {
+          if (called) throw new Error("next() called multiple times");
+          called = true;
+          return dispatch(index + 1, { ...ctx, ...added });
+        };
+        return Promise.resolve(middlewares[index](request, ctx, next));
+      };
+
+      return dispatch(0, { ...(route ?? {}) });
+    }, handlerOptions);
+  },
+});
+
+// Composable middleware pipeline:
+// createHandler().use(auth).use(audit).handle((request, ctx) => ...)
+export const createHandler = <TRoute extends object = {}>(
+  options: CreateHandlerOptions = {}
+): HandlerBuilder<TRoute, TRoute> => builder<TRoute, TRoute>([], options);
@@ -0,0 +1,137 @@
+import { validateQuery } from "./validate";
+import type { PaginationMeta } from "./types";
+
+export type OffsetPaginationInput = {
+  page: number;
+  limit: number;
+  total: number;
+  // Request URL used to build Link headers (e.g. request.url)
+  url?: string | URL;
+};
+
+export type CursorPaginationInput = {
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  limit?: number;
+  // Request URL used to build Link headers (e.g. request.url)
+  url?: string | URL;
+};
+
+export type PaginationInput = OffsetPaginationInput | CursorPaginationInput;
+
+export type ParsePaginationOptions = {
+  defaultLimit?: number;
+  maxLimit?: number;
+  // Language of the error messages (see validate)
+  locale?: string;
+};
+
+export type ParsedPagination = {
+  page: number;
+  limit: number;
+  offset: number;
+  cursor?: string;
+};
+
+const isOffset = (input: PaginationInput): input is OffsetPaginationInput =>
+  "total" in input;
+
+const countPages = (total: number, limit: number): number =>
+  Math.max(1, Math.ceil(total / limit));
+
+export const formatPagination = (input: PaginationInput): PaginationMeta => {
+  if (isOffset(input)) {
+    const { page, limit, total } = input;
+    const totalPages = countPages(total, limit);
+    return {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    };
+  }
+
+  const { nextCursor = null, prevCursor = null, limit } = input;
+  return {
+    nextCursor,
+    prevCursor,
+    ...(limit !== undefined ? { limit } : {}),
+    hasNext: nextCursor !== null,
+    hasPrev: prevCursor !== null,
+  };
+};
+
+const linkTo = (
+  base: string | URL,
+  params: Record<string, string | number>,
+  remove: string[] = []
+): string => {
+  const url = new URL(base);
+  for (const key of remove) url.searchParams.delete(key);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, String(value));
+  }
+  return url.toString();
+};
+
+// RFC 8288 Link header with first/prev/next/last (offset) or prev/next (cursor)
+export const paginationLinks = (input: PaginationInput): string | undefined => {
+  if (!input.url) return undefined;
+
+  const links: [string, string][] = [];
+
+  if (isOffset(input)) {
+    const { page, limit, total, url } = input;
+    const totalPages = countPages(total, limit);
+    const pageLink = (n: number) => linkTo(url, { page: n, limit });
+
+    links.push(["first", pageLink(1)]);
+    if (page > 1)
+      links.push(["prev", pageLink(Math.min(page - 1, totalPages))]);
+    if (page < totalPages) links.push(["next", pageLink(page + 1)]);
+    links.push(["last", pageLink(totalPages)]);
+  } else {
+    const { nextCursor, prevCursor, limit, url } = input;
+    const cursorLink = (cursor: string) =>
+      linkTo(url, limit !== undefined ? { cursor, limit } : { cursor }, [
+        "page",
+      ]);
+
+    if (prevCursor) links.push(["prev", cursorLink(prevCursor)]);
+    if (nextCursor) links.push(["next", cursorLink(nextCursor)]);
+  }
+
+  if (links.length === 0) return undefined;
+  return links.map(([rel, href]) => `<${href}>; rel="${rel}"`).join(", ");
+};
+
+// Reads page/limit/cursor from the query string, clamping limit to maxLimit
+export const parsePagination = (
+  searchParams: URLSearchParams,
+  options: ParsePaginationOptions = {}
+): ParsedPagination => {
+  const { defaultLimit = 20, maxLimit = 100, locale } = options;
+  // Throws a ValidationError for non-integers, like any other query schema
+  const query = validateQuery(
+    {
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    },
+    { page: "integer?", limit: "integer?" },
+    { locale }
+  );
+
+  const page = Math.max(1, query.page ?? 1);
+  const limit = Math.min(maxLimit, Math.max(1, query.limit ?? defaultLimit));
+
+  const cursor = searchParams.get("cursor") ?? undefined;
+
+  return {
+    page,
+    limit,
+    offset: (page - 1) * limit,
+    ...(cursor ? { cursor } : {}),
+  };
+};
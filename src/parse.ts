@@ -0,0 +1,166 @@
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "./errors";
+import { sanitize, validateAndSanitize, validateQuery } from "./validate";
+import type { Infer, ValidateOptions, ValidationSchema } from "./validate";
+
+export type ParseOptions = ValidateOptions & {
+  // Maximum body size in bytes (default 1 MB)
+  maxBodySize?: number;
+};
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const getMediaType = (request: Request): string =>
+  (request.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+
+const assertMediaType = (
+  request: Request,
+  accepts: (type: string) => boolean,
+  expected: string
+): void => {
+  const type = getMediaType(request);
+  if (!accepts(type)) {
+    throw new UnsupportedMediaTypeError(
+      `Unsupported Content-Type "${type || "none"}", expected ${expected}`
+    );
+  }
+};
+
+const tooLarge = (limit: number) =>
+  new PayloadTooLargeError(`Request body exceeds ${limit} bytes`);
+
+// Reads the body while enforcing the size limit, without buffering past it
+const readBody = async (
+  request: Request,
+  limit: number
+): Promise<ArrayBuffer> => {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > limit) throw tooLarge(limit);
+  if (!request.body) return new ArrayBuffer(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge(limit);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer as ArrayBuffer;
+};
+
+// Parses a JSON body (400 on malformed JSON, 415 on other media types) and
+// validates it with validateAndSanitize
+export async function parseJson<const S extends ValidationSchema>(
+  request: Request,
+  schema: S,
+  options?: ParseOptions
+): Promise<Infer<S>>;
+export async function parseJson<T = any>(
+  request: Request,
+  schema: ValidationSchema,
+  options?: ParseOptions
+): Promise<T>;
+export async function parseJson(
+  request: Request,
+  schema: ValidationSchema,
+  options: ParseOptions = {}
+): Promise<unknown> {
+  const { maxBodySize = DEFAULT_MAX_BODY_SIZE, ...validateOptions } = options;
+
+  assertMediaType(
+    request,
+    (type) => type === "application/json" || type.endsWith("+json"),
+    "application/json"
+  );
+
+  const text = new TextDecoder().decode(await readBody(request, maxBodySize));
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new BadRequestError("Invalid JSON body");
+  }
+
+  return validateAndSanitize(body, schema, validateOptions);
+}
+
+// Parses a multipart or urlencoded form body, coercing values like validateQuery
+export async function parseForm<const S extends ValidationSchema>(
+  request: Request,
+  schema: S,
+  options?: ParseOptions
+): Promise<Infer<S>>;
+export async function parseForm<T = any>(
+  request: Request,
+  schema: ValidationSchema,
+  options?: ParseOptions
+): Promise<T>;
+export async function parseForm(
+  request: Request,
+  schema: ValidationSchema,
+  options: ParseOptions = {}
+): Promise<unknown> {
+  const { maxBodySize = DEFAULT_MAX_BODY_SIZE, ...validateOptions } = options;
+
+  assertMediaType(
+    request,
+    (type) =>
+      type === "multipart/form-data" ||
+      type === "application/x-www-form-urlencoded",
+    "multipart/form-data or application/x-www-form-urlencoded"
+  );
+
+  const body = await readBody(request, maxBodySize);
+
+  let form: FormData;
+  try {
+    form = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type")! },
+    }).formData();
+  } catch {
+    throw new BadRequestError("Invalid form body");
+  }
+
+  return sanitize(validateQuery(form, schema, validateOptions), schema);
+}
+
+// Validates the request's query string, coercing values like validateQuery
+export function parseQuery<const S extends ValidationSchema>(
+  request: Request,
+  schema: S,
+  options?: ValidateOptions
+): Infer<S>;
+export function parseQuery<T = any>(
+  request: Request,
+  schema: ValidationSchema,
+  options?: ValidateOptions
+): T;
+export function parseQuery(
+  request: Request,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): unknown {
+  const { searchParams } = new URL(request.url);
+  return sanitize(validateQuery(searchParams, schema, options), schema);
+}
@@ -0,0 +1,58 @@
+import type { ErrorFormat, ProblemDetails } from "./types";
+
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+export const statusTitle = (status: number): string =>
+  STATUS_TITLES[status] ?? (status >= 500 ? "Server Error" : "Client Error");
+
+export const formatProblem = (
+  status: number,
+  members: Partial<ProblemDetails> = {}
+): ProblemDetails => ({
+  type: "about:blank",
+  title: statusTitle(status),
+  status,
+  ...members,
+});
+
+export const problem = (
+  status = 400,
+  members: Partial<ProblemDetails> = {}
+): Response =>
+  new Response(JSON.stringify(formatProblem(status, members)), {
+    status,
+    headers: {
+      "Content-Type": "application/problem+json",
+    },
+  });
+
+// Decides whether an error should be sent as problem details
+export const wantsProblem = (
+  format: ErrorFormat,
+  request?: Request
+): boolean => {
+  if (format !== "negotiate") return format === "problem";
+  const accept = request?.headers.get("accept") ?? "";
+  return accept.includes("application/problem+json");
+};
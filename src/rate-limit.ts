@@ -0,0 +1,289 @@
+import { error } from "./format";
+import { setHeaders } from "./headers";
+import type { Responder } from "./format";
+import type { Middleware } from "./middleware";
+
+export type TokenBucketState = { tokens: number; updatedAt: number };
+
+export type SlidingWindowState = {
+  windowStart: number;
+  count: number;
+  previous: number;
+};
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+// Backing store for limiter state; implement it over Redis or similar to share
+// limits across instances. `ttlMs` is how long the state stays relevant.
+export interface RateLimitStore {
+  get(
+    key: string
+  ): RateLimitState | undefined | Promise<RateLimitState | undefined>;
+  set(key: string, state: RateLimitState, ttlMs: number): void | Promise<void>;
+  // Atomic read-modify-write, preferred over get/set when present. Shared
+  // stores should implement it (e.g. Redis WATCH/MULTI with retries, calling
+  // `fn` again on conflict), since get/set is only serialized per process.
+  update?(
+    key: string,
+    fn: (state: RateLimitState | undefined) => RateLimitState,
+    ttlMs: number
+  ): RateLimitState | Promise<RateLimitState>;
+}
+
+export type RateLimitStrategy = "sliding-window" | "token-bucket";
+
+export type RateLimitOptions = {
+  windowMs: number;
+  // Requests allowed per window (also the token bucket capacity)
+  max: number;
+  // Identifies the caller (default: client IP from x-forwarded-for / x-real-ip)
+  key?: (request: Request) => string | Promise<string>;
+  strategy?: RateLimitStrategy;
+  store?: RateLimitStore;
+  message?: string;
+  // Renders the 429 through a custom createResponder() envelope
+  responder?: Responder<any, any>;
+};
+
+export type RateLimitResult = {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the limit fully resets
+  resetMs: number;
+  // Milliseconds until the next request would be allowed (when limited)
+  retryAfterMs: number;
+};
+
+// Keeps at most `maxKeys` callers; the least recently written are evicted first
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expires: number }
+  >();
+
+  constructor(private maxKeys = 10000) {}
+
+  get(key: string): RateLimitState | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.state;
+  }
+
+  set(key: string, state: RateLimitState, ttlMs: number): void {
+    // Re-inserting moves the key to the end, so the Map stays ordered by last write
+    this.entries.delete(key);
+    this.entries.set(key, { state, expires: Date.now() + ttlMs });
+    while (this.entries.size > this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  update(
+    key: string,
+    fn: (state: RateLimitState | undefined) => RateLimitState,
+    ttlMs: number
+  ): RateLimitState {
+    const state = fn(this.get(key));
+    this.set(key, state, ttlMs);
+    return state;
+  }
+}
+
+// Trusts the leftmost X-Forwarded-For entry, which the client controls unless
+// the proxy in front (e.g. Vercel) overwrites the header rather than appending
+export const clientIp = (request: Request): string =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  request.headers.get("x-real-ip") ||
+  "unknown";
+
+const slidingWindow = (
+  state: SlidingWindowState | undefined,
+  now: number,
+  windowMs: number,
+  max: number
+): [RateLimitResult, SlidingWindowState] => {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.count;
+  }
+
+  // Weight the previous window by how much of it still overlaps
+  const elapsed = now - windowStart;
+  const weight = (windowMs - elapsed) / windowMs;
+  const estimated = previous * weight + count;
+  const resetMs = windowStart + windowMs - now;
+
+  if (estimated + 1 > max) {
+    const retryAfterMs =
+      count + 1 > max || previous === 0
+        ? resetMs
+        : Math.max(1, windowMs * (1 - (max - count - 1) / previous) - elapsed);
+    return [
+      { limited: true, limit: max, remaining: 0, resetMs, retryAfterMs },
+      { windowStart, count, previous },
+    ];
+  }
+
+  return [
+    {
+      limited: false,
+      limit: max,
+      remaining: Math.max(0, Math.floor(max - estimated - 1)),
+      resetMs,
+      retryAfterMs: 0,
+    },
+    { windowStart, count: count + 1, previous },
+  ];
+};
+
+const tokenBucket = (
+  state: TokenBucketState | undefined,
+  now: number,
+  windowMs: number,
+  max: number
+): [RateLimitResult, TokenBucketState] => {
+  const rate = max / windowMs; // tokens per ms
+  const tokens = state
+    ? Math.min(max, state.tokens + (now - state.updatedAt) * rate)
+    : max;
+
+  if (tokens < 1) {
+    return [
+      {
+        limited: true,
+        limit: max,
+        remaining: 0,
+        resetMs: Math.ceil((max - tokens) / rate),
+        retryAfterMs: Math.ceil((1 - tokens) / rate),
+      },
+      { tokens, updatedAt: now },
+    ];
+  }
+
+  const left = tokens - 1;
+  return [
+    {
+      limited: false,
+      limit: max,
+      remaining: Math.floor(left),
+      resetMs: Math.ceil((max - left) / rate),
+      retryAfterMs: 0,
+    },
+    { tokens: left, updatedAt: now },
+  ];
+};
+
+// Records a request for the caller and reports whether it is over the limit
+export const createRateLimiter = (options: RateLimitOptions) => {
+  const {
+    windowMs,
+    max,
+    key = clientIp,
+    strategy = "sliding-window",
+    store = new MemoryRateLimitStore(),
+  } = options;
+  // Sliding windows need the previous window to stay around
+  const ttlMs = strategy === "token-bucket" ? windowMs : windowMs * 2;
+  // Pending updates per key, so concurrent requests don't read the same state
+  const queues = new Map<string, Promise<unknown>>();
+
+  const apply = async (id: string): Promise<RateLimitResult> => {
+    let result: RateLimitResult | undefined;
+    const compute = (state: RateLimitState | undefined): RateLimitState => {
+      const now = Date.now();
+      const [outcome, next] =
+        strategy === "token-bucket"
+          ? tokenBucket(state as TokenBucketState, now, windowMs, max)
+          : slidingWindow(state as SlidingWindowState, now, windowMs, max);
+      result = outcome;
+      return next;
+    };
+
+    if (store.update) {
+      await store.update(id, compute, ttlMs);
+    } else {
+      await store.set(id, compute(await store.get(id)), ttlMs);
+    }
+    return result!;
+  };
+
+  const serialize = (id: string): Promise<RateLimitResult> => {
+    const previous = queues.get(id) ?? Promise.resolve();
+    const run = previous.then(() => apply(id));
+    const settled = run.catch(() => {});
+    queues.set(id, settled);
+    void settled.then(() => {
+      if (queues.get(id) === settled) queues.delete(id);
+    });
+    return run;
+  };
+
+  return async (request: Request): Promise<RateLimitResult> =>
+    serialize(`${strategy}:${await key(request)}`);
+};
+
+export const rateLimitHeaders = (
+  result: RateLimitResult,
+  windowMs: number
+): Record<string, string> => ({
+  "RateLimit-Limit": String(result.limit),
+  "RateLimit-Remaining": String(result.remaining),
+  "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+  "RateLimit-Policy": `${result.limit};w=${Math.ceil(windowMs / 1000)}`,
+});
+
+const limitedResponse = (
+  options: RateLimitOptions,
+  result: RateLimitResult
+): Response => {
+  const send = options.responder?.error ?? error;
+  return send(options.message ?? "Too Many Requests", {
+    status: 429,
+    headers: {
+      ...rateLimitHeaders(result, options.windowMs),
+      "Retry-After": String(Math.ceil(result.retryAfterMs / 1000)),
+    },
+  });
+};
+
+// Wraps a route handler: rateLimit({ windowMs: 60_000, max: 30 })(withHandler(fn))
+export const rateLimit = (options: RateLimitOptions) => {
+  const limiter = createRateLimiter(options);
+
+  return <TRest extends any[]>(
+      handler: (
+        request: Request,
+        ...rest: TRest
+      ) => Response | Promise<Response>
+    ) =>
+    async (request: Request, ...rest: TRest): Promise<Response> => {
+      const result = await limiter(request);
+      if (result.limited) return limitedResponse(options, result);
+
+      const response = await handler(request, ...rest);
+      return setHeaders(response, rateLimitHeaders(result, options.windowMs));
+    };
+};
+
+// Same limiter as a createHandler() middleware
+export const rateLimitMiddleware = (options: RateLimitOptions): Middleware => {
+  const limiter = createRateLimiter(options);
+
+  return async (request, _ctx, next) => {
+    const result = await limiter(request);
+    if (result.limited) return limitedResponse(options, result);
+
+    const response = await next();
+    return setHeaders(response, rateLimitHeaders(result, options.windowMs));
+  };
+};
@@ -0,0 +1,29 @@
+import type { RequestIdOptions } from "./types";
+
+export const DEFAULT_REQUEST_ID_HEADER = "X-Request-Id";
+
+// Incoming ids are echoed into headers and logs, so only accept simple tokens
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Ids already assigned, so nested wrappers (e.g. createHandler) agree on one id
+const assigned = new WeakMap<Request, string>();
+
+// Returns the request's id: the incoming header if valid, otherwise a new one
+export const getRequestId = (
+  request?: Request,
+  options: RequestIdOptions = {}
+): string => {
+  const {
+    header = DEFAULT_REQUEST_ID_HEADER,
+    generate = () => crypto.randomUUID(),
+  } = options;
+  if (!request) return generate();
+
+  let id = assigned.get(request);
+  if (!id) {
+    const incoming = request.headers.get(header);
+    id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : generate();
+    assigned.set(request, id);
+  }
+  return id;
+};
@@ -0,0 +1,227 @@
+import { ApiError } from "./errors";
+import { ValidationError } from "./validate";
+import { formatError } from "./format";
+import { applyOptions } from "./headers";
+import { getConfig } from "./config";
+import { debugInfo } from "./debug";
+import type { ApiErrorShape, ResponseOptions } from "./types";
+
+export type StreamSource<T> = AsyncIterable<T> | Iterable<T>;
+
+export type StreamOptions = ResponseOptions & {
+  // Usually request.signal: stops the stream when the client goes away
+  signal?: AbortSignal;
+};
+
+export type SseOptions = StreamOptions & {
+  // Interval for keep-alive comments in ms (default 15000, 0 disables)
+  heartbeatMs?: number;
+  // Reconnection delay sent to the client before the first event
+  retry?: number;
+};
+
+export type SseEventOptions = {
+  event?: string;
+  id?: string | number;
+  retry?: number;
+};
+
+const assertRetry = (retry: number | undefined): void => {
+  if (retry !== undefined && !(Number.isInteger(retry) && retry >= 0)) {
+    throw new TypeError("SSE retry must be a non-negative integer");
+  }
+};
+
+// Line breaks would end the field and let the value inject other fields, and
+// ids with NUL are ignored by browsers, so neither has a valid SSE form
+const assertEventOptions = ({ event, id, retry }: SseEventOptions): void => {
+  if (event !== undefined && /[\r\n]/.test(event)) {
+    throw new TypeError("SSE event names must not contain line breaks");
+  }
+  if (id !== undefined && /[\r\n\0]/.test(String(id))) {
+    throw new TypeError("SSE ids must not contain line breaks or NUL");
+  }
+  assertRetry(retry);
+};
+
+// Yield an SseEvent to set the event name, id or retry of a single message;
+// anything else yielded is sent as plain data
+export class SseEvent<T = unknown> {
+  constructor(public data: T, public options: SseEventOptions = {}) {
+    assertEventOptions(options);
+  }
+}
+
+export const sseEvent = <T>(data: T, options?: SseEventOptions) =>
+  new SseEvent(data, options);
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+
+// Errors raised mid-stream end it with the standard error envelope
+const toErrorShape = (err: unknown): ApiErrorShape => {
+  if (err instanceof ApiError) {
+    return formatError(err.message, undefined, {
+      code: err.code,
+      details: err.details,
+    });
+  }
+  if (err instanceof ValidationError)
+    return formatError(err.message, err.fields, {
+      issues: err.issues.length > 0 ? err.issues : undefined,
+    });
+
+  getConfig().logger.error({ err }, "Unhandled error in stream");
+  return formatError("Internal Server Error", undefined, {
+    debug: debugInfo(err),
+  });
+};
+
+const serializeEvent = (
+  data: unknown,
+  { event, id, retry }: SseEventOptions = {}
+): string => {
+  // Checked again in case the options were changed after construction
+  assertEventOptions({ event, id, retry });
+  const text = typeof data === "string" ? data : JSON.stringify(data);
+  let message = "";
+  if (event) message += `event: ${event}\n`;
+  if (id !== undefined) message += `id: ${id}\n`;
+  if (retry !== undefined) message += `retry: ${retry}\n`;
+  // Multi-line data needs one data field per line
+  for (const line of text.split(/\r\n|\r|\n/)) message += `data: ${line}\n`;
+  return message + "\n";
+};
+
+const createStream = <T>(
+  source: StreamSource<T>,
+  encode: (item: T) => string,
+  encodeError: (error: ApiErrorShape) => string,
+  options: {
+    signal?: AbortSignal;
+    heartbeat?: [string, number];
+    prelude?: string;
+  }
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const iterator =
+    Symbol.asyncIterator in source
+      ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (source as Iterable<T>)[Symbol.iterator]();
+  let closed = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let abort = () => {};
+
+  const stop = () => {
+    closed = true;
+    clearInterval(timer);
+    options.signal?.removeEventListener("abort", abort);
+    // Lets generators run their finally blocks
+    Promise.resolve()
+      .then(() => iterator.return?.())
+      .catch(() => {});
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const enqueue = (text: string) =>
+        controller.enqueue(encoder.encode(text));
+
+      abort = () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      };
+      if (options.signal?.aborted) return abort();
+      options.signal?.addEventListener("abort", abort, { once: true });
+
+      if (options.prelude) enqueue(options.prelude);
+      if (options.heartbeat) {
+        const [comment, ms] = options.heartbeat;
+        timer = setInterval(() => enqueue(comment), ms);
+      }
+    },
+
+    async pull(controller) {
+      if (closed) return;
+      let chunk: string;
+      let done = false;
+      try {
+        const result = await iterator.next();
+        done = !!result.done;
+        chunk = done ? "" : encode(result.value);
+      } catch (err) {
+        if (closed) return;
+        chunk = encodeError(toErrorShape(err));
+        done = true;
+      }
+      // Aborted while waiting for the next item
+      if (closed) return;
+
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (done) {
+        stop();
+        controller.close();
+      }
+    },
+
+    cancel() {
+      stop();
+    },
+  });
+};
+
+const streamResponse = (
+  stream: ReadableStream<Uint8Array>,
+  contentType: string,
+  options: StreamOptions
+): Response => {
+  const { status = 200, statusText, signal: _signal, ...rest } = options;
+  const headers = new Headers({
+    "Content-Type": contentType,
+    "Cache-Control": "no-cache, no-transform",
+    // Disables proxy buffering (nginx) so events arrive as they are sent
+    "X-Accel-Buffering": "no",
+  });
+  applyOptions(headers, rest);
+  return new Response(stream, { status, statusText, headers });
+};
+
+// Server-Sent Events: sse(generate(), { signal: request.signal })
+export const sse = <T>(
+  source: StreamSource<T | SseEvent>,
+  options: SseOptions = {}
+): Response => {
+  const { heartbeatMs = DEFAULT_HEARTBEAT_MS, retry, ...rest } = options;
+  assertRetry(retry);
+
+  const stream = createStream(
+    source,
+    (item) =>
+      item instanceof SseEvent
+        ? serializeEvent(item.data, item.options)
+        : serializeEvent(item),
+    (error) => serializeEvent(error, { event: "error" }),
+    {
+      signal: rest.signal,
+      heartbeat: heartbeatMs > 0 ? [": heartbeat\n\n", heartbeatMs] : undefined,
+      prelude: retry !== undefined ? `retry: ${retry}\n\n` : undefined,
+    }
+  );
+
+  return streamResponse(stream, "text/event-stream; charset=utf-8", rest);
+};
+
+// Newline-delimited JSON, one value per line
+export const ndjson = <T>(
+  source: StreamSource<T>,
+  options: StreamOptions = {}
+): Response => {
+  const stream = createStream(
+    source,
+    (item) => JSON.stringify(item) + "\n",
+    (error) => JSON.stringify(error) + "\n",
+    { signal: options.signal }
+  );
+
+  return streamResponse(stream, "application/x-ndjson", options);
+};
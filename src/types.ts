@@ -1,11 +1,172 @@
+export type OffsetPaginationMeta = {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+export type CursorPaginationMeta = {
+  nextCursor: string | null;
+  prevCursor: string | null;
+  limit?: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+export type PaginationMeta = OffsetPaginationMeta | CursorPaginationMeta;
+
+export type ResponseMeta = {
+  pagination?: PaginationMeta;
+  [key: string]: unknown;
+};
+
 export type ApiSuccess<T = unknown> = {
   success: true;
   data: T;
+  meta?: ResponseMeta;
+};
+
+// Machine-readable error information clients can branch on
+export type ErrorExtras<TCode extends string = string> = {
+  // Stable identifier such as "USER_NOT_FOUND"
+  code?: TCode;
+  details?: unknown;
+  // Correlates the error with server logs (see the requestId handler option)
+  requestId?: string;
+  // Original error of a 500, only sent when exposeErrors is on
+  debug?: ErrorDebugInfo;
+  // Structured validation failures behind `fields`
+  issues?: ValidationIssue[];
 };
 
-export type ApiErrorShape = {
+// One validation failure, e.g. { path: "password", code: "minLength", params: { minLength: 8 } }
+export type ValidationIssue = {
+  path: string;
+  // The failed check, matching the message catalog key (or a custom rule name)
+  code: string;
+  params: Record<string, unknown>;
+  message: string;
+};
+
+export type ErrorDebugInfo = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: ErrorDebugInfo;
+};
+
+export type ApiErrorShape<TCode extends string = string> = {
   success: false;
   error: string;
-};
+  // Per-field validation messages, keyed by field name
+  fields?: Record<string, string[]>;
+} & ErrorExtras<TCode>;
 
 export type ApiResponse<T = unknown> = ApiSuccess<T> | ApiErrorShape;
+
+export type ResponseCookie = {
+  name: string;
+  value: string;
+  domain?: string;
+  // Defaults to "/"
+  path?: string;
+  expires?: Date;
+  // Seconds
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+  partitioned?: boolean;
+  priority?: "low" | "medium" | "high";
+};
+
+// Accepted by every response helper in place of a bare status
+export type ResponseOptions = {
+  status?: number;
+  statusText?: string;
+  headers?: HeadersInit;
+  cookies?: ResponseCookie[];
+};
+
+// RFC 9457 problem details, sent as application/problem+json
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+// "negotiate" sends problem details only when the request's Accept header asks for them
+export type ErrorFormat = "default" | "problem" | "negotiate";
+
+// pino-compatible: any logger with error(obj, msg) works
+export interface Logger {
+  error(obj: object, msg?: string): void;
+}
+
+export type RequestHookEvent = {
+  request?: Request;
+  requestId: string;
+};
+
+export type ResponseHookEvent = RequestHookEvent & {
+  response: Response;
+  status: number;
+  durationMs: number;
+};
+
+export type ErrorHookEvent = RequestHookEvent & {
+  error: unknown;
+  // Status of the error response sent for it
+  status: number;
+  durationMs: number;
+};
+
+export type RequestIdOptions = {
+  // Header read from the request and set on the response (default X-Request-Id)
+  header?: string;
+  // Default crypto.randomUUID()
+  generate?: () => string;
+};
+
+export type HandlerOptions = {
+  // Status used when a ValidationError escapes the handler (default 422)
+  validationStatus?: number;
+  // Overrides the global errorFormat set with configure()
+  errorFormat?: ErrorFormat;
+  // Adds ETags to 200 GET/HEAD responses and answers conditional requests with 304
+  etag?: boolean;
+  // Sends the request id as a response header and in error bodies
+  requestId?: boolean | RequestIdOptions;
+  // Overrides the global logger set with configure()
+  logger?: Logger;
+  // Overrides the global exposeErrors set with configure()
+  exposeErrors?: boolean;
+  onRequest?: (event: RequestHookEvent) => void | Promise<void>;
+  onResponse?: (event: ResponseHookEvent) => void | Promise<void>;
+  // Called for errors thrown by the handler, after they are mapped to a status
+  onError?: (event: ErrorHookEvent) => void | Promise<void>;
+};
+
+export type ResponderOptions<TSuccess, TError> = HandlerOptions & {
+  // Custom envelopes for success and error bodies
+  formatSuccess?: (
+    data: unknown,
+    status: number,
+    meta?: ResponseMeta
+  ) => TSuccess;
+  formatError?: (
+    message: string,
+    status: number,
+    fields?: Record<string, string[]>,
+    extras?: ErrorExtras
+  ) => TError;
+  // Tells withHandler whether a returned envelope is an error (default: success === false)
+  isError?: (body: TSuccess | TError) => boolean;
+  // Extra headers added to every response
+  headers?: HeadersInit | (() => HeadersInit);
+};
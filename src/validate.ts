@@ -1,4 +1,18 @@
-export type ValidationRule =
+import { formats, isStringFormat } from "./formats";
+import type { StringFormat } from "./formats";
+import { formatMessage, getMessages } from "./messages";
+import type { ValidationMessageKey, ValidationMessages } from "./messages";
+import type { ValidationIssue } from "./types";
+
+// Object rules accept a message that replaces the catalog message for their failures
+type WithMessage<R> = R & { message?: string };
+
+// true passes, false fails with the catalog message, a string fails with that
+// message. Promises are only allowed with validateAsync / validatePartialAsync.
+type CustomResult = boolean | string | Promise<boolean | string>;
+
+// TNames are the names of rules registered with createValidator
+export type ValidationRule<TNames extends string = never> =
   | "string"
   | "number"
   | "boolean"
@@ -9,62 +23,330 @@ export type ValidationRule =
   | "boolean?"
   | "object?"
   | "array?"
-  | "email"
-  | "email?"
-  | "url"
-  | "url?"
-  | { min: number }
-  | { max: number }
-  | { minLength: number }
-  | { maxLength: number }
-  | { pattern: RegExp }
-  | { enum: any[] }
-  | { custom: (value: any) => boolean | string };
+  | "integer"
+  | "integer?"
+  | StringFormat
+  | `${StringFormat}?`
+  | TNames
+  | `${TNames}?`
+  | WithMessage<{ min: number }>
+  | WithMessage<{ max: number }>
+  | WithMessage<{ exclusiveMin: number }>
+  | WithMessage<{ multipleOf: number }>
+  | WithMessage<{ after: Date | string }>
+  | WithMessage<{ before: Date | string }>
+  | WithMessage<{ minLength: number }>
+  | WithMessage<{ maxLength: number }>
+  | WithMessage<{ pattern: RegExp }>
+  | WithMessage<{ enum: readonly any[] }>
+  | WithMessage<{ custom: (value: any) => CustomResult }>
+  | WithMessage<{ schema: ValidationSchema<TNames> }>
+  | WithMessage<{ items: FieldRules<TNames> }>;
+
+// A single rule or a list of rules (readonly so schemas can be declared `as const`)
+export type FieldRules<TNames extends string = never> =
+  | ValidationRule<TNames>
+  | readonly ValidationRule<TNames>[];
 
-export type ValidationSchema = Record<
+export type ValidationSchema<TNames extends string = never> = Record<
   string,
-  ValidationRule | ValidationRule[]
+  FieldRules<TNames>
 >;
 
+// A named rule for createValidator. A type predicate check
+// ((value): value is string => ...) also types the field for Infer.
+export type RuleDefinition<T = unknown> = {
+  // Receives the raw value, which may be of any type
+  check: ((value: unknown) => value is T) | ((value: unknown) => boolean);
+  // Message template, defaults to the catalog's "invalid" message
+  message?: string;
+  // Converts string input when coercing (validateQuery, parseForm, parseQuery)
+  coerce?: (value: string) => unknown;
+};
+
+export type NamedRule<
+  TName extends string = string,
+  T = unknown
+> = RuleDefinition<T> & { name: TName };
+
+// Type-level inference of the validated shape from a schema
+type RuleUnion<R> = R extends readonly (infer E)[] ? E : R;
+
+type BaseTypes = {
+  string: string;
+  number: number;
+  boolean: boolean;
+  object: Record<string, unknown>;
+  array: unknown[];
+  integer: number;
+} & Record<StringFormat, string>;
+
+// Value types of registered rules, keyed by rule name
+export type RuleTypes<R extends readonly NamedRule<string, any>[]> = {
+  [K in R[number] as K["name"]]: K extends NamedRule<string, infer T>
+    ? T
+    : unknown;
+};
+
+type NumberRule =
+  | { min: number }
+  | { max: number }
+  | { exclusiveMin: number }
+  | { multipleOf: number };
+
+type InferBase<R, TTypes> = R extends `${infer B}?`
+  ? B extends keyof TTypes
+    ? TTypes[B]
+    : unknown
+  : R extends keyof TTypes
+  ? TTypes[R]
+  : unknown;
+
+// Picks the most specific rule: enum, then nested schema, then items, then type
+type InferRules<U, TTypes> = [Extract<U, { enum: readonly any[] }>] extends [
+  never
+]
+  ? [Extract<U, { schema: ValidationSchema<string> }>] extends [never]
+    ? [Extract<U, { items: FieldRules<string> }>] extends [never]
+      ? [Extract<U, string>] extends [never]
+        ? [Extract<U, NumberRule>] extends [never]
+          ? unknown
+          : number
+        : InferBase<Extract<U, string>, TTypes>
+      : InferRules<
+          RuleUnion<Extract<U, { items: FieldRules<string> }>["items"]>,
+          TTypes
+        >[]
+    : InferSchema<
+        Extract<U, { schema: ValidationSchema<string> }>["schema"],
+        TTypes
+      >
+  : Extract<U, { enum: readonly any[] }>["enum"][number];
+
+type IsOptional<R> = [Extract<RuleUnion<R>, `${string}?`>] extends [never]
+  ? false
+  : true;
+
+type OptionalKeys<S> = {
+  [K in keyof S]: IsOptional<S[K]> extends true ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferSchema<S, TTypes> = string extends keyof S
+  ? Record<string, any>
+  : Simplify<
+      {
+        -readonly [K in Exclude<keyof S, OptionalKeys<S>>]: InferRules<
+          RuleUnion<S[K]>,
+          TTypes
+        >;
+      } & {
+        -readonly [K in OptionalKeys<S>]?:
+          | InferRules<RuleUnion<S[K]>, TTypes>
+          | undefined;
+      }
+    >;
+
+// TTypes maps registered rule names to their value types (see RuleTypes)
+export type Infer<
+  S extends ValidationSchema<string>,
+  TTypes = {}
+> = InferSchema<S, Omit<BaseTypes, keyof TTypes> & TTypes>;
+
+// Identity helper that keeps literal rule types for Infer
+export function defineSchema<const S extends ValidationSchema>(schema: S): S {
+  return schema;
+}
+
+// Declares a named rule for createValidator:
+// defineRule("slug", { check: (v): v is string => ..., message: "must be a slug" })
+export function defineRule<const TName extends string, T = unknown>(
+  name: TName,
+  definition: RuleDefinition<T>
+): NamedRule<TName, T> {
+  return { ...definition, name };
+}
+
+// A failure reported by a refinement. The path is relative to the refined
+// schema, so "" is the object itself and "passwordConfirm" one of its fields.
+export type RefinementIssue = {
+  path: string;
+  // Defaults to "custom"; catalog keys also supply the default message
+  code?: string;
+  message?: string;
+  params?: Record<string, unknown>;
+};
+
+// Checks the whole object once its field rules passed
+export type Refinement<T = Record<string, any>> = (
+  data: T
+) => RefinementIssue | readonly RefinementIssue[] | void;
+
+// Plain refinements are skipped by validatePartial, since fields they compare
+// may be missing. { partial: true, check } also runs there, with only the
+// fields that were sent.
+export type SchemaRefinement<T = Record<string, any>> =
+  | Refinement<T>
+  | { partial: true; check: Refinement<Partial<T>> };
+
+const refinements = new WeakMap<object, SchemaRefinement<any>[]>();
+
+// Attaches cross-field checks to a schema and returns the same schema:
+// refine(schema, (d) => d.end > d.start ? undefined : { path: "end", message: "must be after start" })
+export function refine<const S extends ValidationSchema<string>>(
+  schema: S,
+  ...checks: SchemaRefinement<Infer<S>>[]
+): S {
+  refinements.set(schema, [...(refinements.get(schema) ?? []), ...checks]);
+  return schema;
+}
+
+export type ValidateOptions = {
+  // Convert string input (query strings, route params, form data) to the
+  // types the schema expects before the rules run
+  coerce?: boolean;
+  // Language of the error messages, e.g. "de" or "es-MX" (default "en")
+  locale?: string;
+  // Stop at the first failure
+  abortEarly?: boolean;
+  // Stop once this many failures were found
+  maxErrors?: number;
+};
+
+export type AsyncValidateOptions = ValidateOptions & {
+  // Maximum number of fields whose custom rules run at once (default 10)
+  concurrency?: number;
+  // Milliseconds after which a pending custom rule fails with "timeout"
+  timeout?: number;
+};
+
+export type QueryInput =
+  | URLSearchParams
+  | FormData
+  | Record<string, string | string[] | undefined>;
+
 export class ValidationError extends Error {
   public fields: Record<string, string[]>;
+  public issues: ValidationIssue[];
 
-  constructor(message: string, fields: Record<string, string[]> = {}) {
+  constructor(
+    message: string,
+    fields: Record<string, string[]> = {},
+    issues: ValidationIssue[] = []
+  ) {
     super(message);
     this.name = "ValidationError";
     this.fields = fields;
+    this.issues = issues;
   }
 }
 
-function isEmail(value: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(value);
+// Tolerates float error, so 0.3 counts as a multiple of 0.1
+function isMultipleOf(value: number, step: number): boolean {
+  const quotient = value / step;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
 }
 
-function isUrl(value: string): boolean {
-  try {
-    new URL(value);
-    return true;
-  } catch {
-    return false;
-  }
+// Milliseconds since the epoch for Dates and date strings, otherwise NaN
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  return typeof value === "string" ? Date.parse(value) : NaN;
+}
+
+function showDate(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+// Internal functions accept any rule names; unknown names are ignored
+type AnyRule = ValidationRule<string>;
+type AnyFieldRules = FieldRules<string>;
+type AnySchema = ValidationSchema<string>;
+
+// Named rules registered with createValidator
+type RuleRegistry = ReadonlyMap<string, RuleDefinition<any>>;
+
+const NO_RULES: RuleRegistry = new Map();
+
+function toRuleArray(rules: AnyFieldRules): readonly AnyRule[] {
+  return Array.isArray(rules) ? rules : [rules as AnyRule];
+}
+
+// State shared by one validation run
+type ValidationContext = {
+  errors: Record<string, string[]>;
+  issues: ValidationIssue[];
+  partial: boolean;
+  messages: ValidationMessages;
+  rules: RuleRegistry;
+  // Number of issues after which validation stops (abortEarly / maxErrors)
+  limit: number;
+  // Set by the async functions: custom rules and refinements wait here
+  // until every sync rule ran
+  deferred?: DeferredWork;
+};
+
+type DeferredWork = {
+  checks: {
+    path: string;
+    value: unknown;
+    rule: WithMessage<{ custom: (value: any) => CustomResult }>;
+  }[];
+  refinements: { obj: Record<string, any>; schema: AnySchema; path: string }[];
+};
+
+// Thrown to unwind once the issue limit is reached
+const LIMIT_REACHED = Symbol("limit reached");
+
+function report(
+  ctx: ValidationContext,
+  path: string,
+  code: string,
+  params: Record<string, unknown> = {},
+  override?: string
+): void {
+  // Codes of registered rules have no catalog entry of their own
+  const template =
+    override ??
+    ctx.messages[code as ValidationMessageKey] ??
+    ctx.messages.invalid;
+  const message = formatMessage(template, params);
+  (ctx.errors[path] ??= []).push(message);
+  ctx.issues.push({ path, code, params, message });
+  if (ctx.issues.length >= ctx.limit) throw LIMIT_REACHED;
 }
 
 function validateRule(
   key: string,
   value: any,
-  rule: ValidationRule,
-  errors: Record<string, string[]>
+  rule: AnyRule,
+  ctx: ValidationContext,
+  hasTypeRule: boolean
 ): void {
-  if (!errors[key]) errors[key] = [];
-
   if (typeof rule === "string") {
     const optional = rule.endsWith("?");
     const baseType = optional ? rule.slice(0, -1) : rule;
 
     if (value === undefined || value === null) {
       if (!optional) {
-        errors[key].push(`is required`);
+        report(ctx, key, "required");
+      }
+      return;
+    }
+
+    // Registered rules take precedence over built-ins of the same name
+    const named = ctx.rules.get(baseType);
+    if (named) {
+      if (!named.check(value)) {
+        report(ctx, key, baseType, {}, named.message ?? ctx.messages.invalid);
       }
       return;
     }
@@ -72,17 +354,17 @@ function validateRule(
     switch (baseType) {
       case "string":
         if (typeof value !== "string") {
-          errors[key].push(`must be a string`);
+          report(ctx, key, "string");
         }
         break;
       case "number":
         if (typeof value !== "number" || isNaN(value)) {
-          errors[key].push(`must be a number`);
+          report(ctx, key, "number");
         }
         break;
       case "boolean":
         if (typeof value !== "boolean") {
-          errors[key].push(`must be a boolean`);
+          report(ctx, key, "boolean");
         }
         break;
       case "object":
@@ -91,164 +373,702 @@ function validateRule(
           Array.isArray(value) ||
           value === null
         ) {
-          errors[key].push(`must be an object`);
+          report(ctx, key, "object");
         }
         break;
       case "array":
         if (!Array.isArray(value)) {
-          errors[key].push(`must be an array`);
+          report(ctx, key, "array");
         }
         break;
-      case "email":
-        if (typeof value !== "string" || !isEmail(value)) {
-          errors[key].push(`must be a valid email`);
+      case "integer":
+        if (!Number.isInteger(value)) {
+          report(ctx, key, "integer");
         }
         break;
-      case "url":
-        if (typeof value !== "string" || !isUrl(value)) {
-          errors[key].push(`must be a valid URL`);
+      default:
+        if (
+          isStringFormat(baseType) &&
+          (typeof value !== "string" || !formats[baseType](value))
+        ) {
+          report(ctx, key, baseType);
         }
-        break;
     }
   } else if (typeof rule === "object") {
+    const { message } = rule;
+
     if ("min" in rule) {
       if (typeof value !== "number" || value < rule.min) {
-        errors[key].push(`must be at least ${rule.min}`);
+        report(ctx, key, "min", { min: rule.min }, message);
       }
     }
     if ("max" in rule) {
       if (typeof value !== "number" || value > rule.max) {
-        errors[key].push(`must be at most ${rule.max}`);
+        report(ctx, key, "max", { max: rule.max }, message);
+      }
+    }
+    if ("exclusiveMin" in rule) {
+      if (typeof value !== "number" || value <= rule.exclusiveMin) {
+        const params = { exclusiveMin: rule.exclusiveMin };
+        report(ctx, key, "exclusiveMin", params, message);
+      }
+    }
+    if ("multipleOf" in rule) {
+      if (typeof value !== "number" || !isMultipleOf(value, rule.multipleOf)) {
+        const params = { multipleOf: rule.multipleOf };
+        report(ctx, key, "multipleOf", params, message);
+      }
+    }
+    if ("after" in rule) {
+      if (!(toTime(value) > toTime(rule.after))) {
+        report(ctx, key, "after", { after: showDate(rule.after) }, message);
+      }
+    }
+    if ("before" in rule) {
+      if (!(toTime(value) < toTime(rule.before))) {
+        report(ctx, key, "before", { before: showDate(rule.before) }, message);
       }
     }
     if ("minLength" in rule) {
       if (typeof value === "string" && value.length < rule.minLength) {
-        errors[key].push(`must be at least ${rule.minLength} characters`);
+        report(ctx, key, "minLength", { minLength: rule.minLength }, message);
       } else if (Array.isArray(value) && value.length < rule.minLength) {
-        errors[key].push(`must have at least ${rule.minLength} items`);
+        report(ctx, key, "minItems", { minItems: rule.minLength }, message);
       }
     }
     if ("maxLength" in rule) {
       if (typeof value === "string" && value.length > rule.maxLength) {
-        errors[key].push(`must be at most ${rule.maxLength} characters`);
+        report(ctx, key, "maxLength", { maxLength: rule.maxLength }, message);
       } else if (Array.isArray(value) && value.length > rule.maxLength) {
-        errors[key].push(`must have at most ${rule.maxLength} items`);
+        report(ctx, key, "maxItems", { maxItems: rule.maxLength }, message);
       }
     }
     if ("pattern" in rule) {
       if (typeof value === "string" && !rule.pattern.test(value)) {
-        errors[key].push(`does not match required pattern`);
+        report(ctx, key, "pattern", { pattern: rule.pattern.source }, message);
       }
     }
     if ("enum" in rule) {
       if (!rule.enum.includes(value)) {
-        errors[key].push(`must be one of: ${rule.enum.join(", ")}`);
+        report(ctx, key, "enum", { enum: rule.enum }, message);
       }
     }
     if ("custom" in rule) {
-      const result = rule.custom(value);
-      if (result === false) {
-        errors[key].push(`failed custom validation`);
-      } else if (typeof result === "string") {
-        errors[key].push(result);
+      if (ctx.deferred) {
+        ctx.deferred.checks.push({ path: key, value, rule });
+      } else {
+        const result = rule.custom(value);
+        if (result instanceof Promise) {
+          throw new TypeError(
+            `Custom rule for "${key}" returned a Promise, use validateAsync`
+          );
+        }
+        reportCustom(ctx, key, result, message);
+      }
+    }
+    if ("schema" in rule) {
+      // Presence is left to a sibling type rule such as "object" or "object?"
+      if (value === undefined || value === null) {
+        if (!hasTypeRule) report(ctx, key, "required", {}, message);
+      } else if (!isPlainObject(value)) {
+        if (!hasTypeRule) report(ctx, key, "object", {}, message);
+      } else {
+        validateFields(value, rule.schema, ctx, key);
+      }
+    }
+    if ("items" in rule) {
+      // Presence is left to a sibling type rule such as "array" or "array?"
+      if (value === undefined || value === null) {
+        if (!hasTypeRule) report(ctx, key, "required", {}, message);
+      } else if (!Array.isArray(value)) {
+        if (!hasTypeRule) report(ctx, key, "array", {}, message);
+      } else {
+        value.forEach((item, index) => {
+          validateValue(`${key}[${index}]`, item, rule.items, ctx);
+        });
       }
     }
   }
 }
 
-export function validate<T = any>(data: unknown, schema: ValidationSchema): T {
-  if (!data || typeof data !== "object" || Array.isArray(data)) {
-    throw new ValidationError("Data must be an object");
+function reportCustom(
+  ctx: ValidationContext,
+  key: string,
+  result: boolean | string,
+  message?: string
+): void {
+  if (result === false) {
+    report(ctx, key, "custom", {}, message);
+  } else if (typeof result === "string") {
+    report(ctx, key, "custom", {}, result);
   }
+}
 
-  const obj = data as Record<string, any>;
-  const errors: Record<string, string[]> = {};
+function validateValue(
+  path: string,
+  value: any,
+  rules: AnyFieldRules,
+  ctx: ValidationContext
+): void {
+  const ruleArray = toRuleArray(rules);
+  const hasTypeRule = ruleArray.some((rule) => typeof rule === "string");
+
+  for (const rule of ruleArray) {
+    validateRule(path, value, rule, ctx, hasTypeRule);
+  }
+}
+
+function validateFields(
+  obj: Record<string, any>,
+  schema: AnySchema,
+  ctx: ValidationContext,
+  path: string
+): void {
+  // Refinements only run when the fields of this object are valid
+  const issueCount = ctx.issues.length;
 
   for (const [key, rules] of Object.entries(schema)) {
-    const value = obj[key];
-    const ruleArray = Array.isArray(rules) ? rules : [rules];
+    // In partial mode only validate fields that are present in the data
+    if (ctx.partial && !(key in obj)) continue;
 
-    for (const rule of ruleArray) {
-      validateRule(key, value, rule, errors);
+    validateValue(joinPath(path, key), obj[key], rules, ctx);
+  }
+
+  if (ctx.deferred) {
+    ctx.deferred.refinements.push({ obj, schema, path });
+  } else if (ctx.issues.length === issueCount) {
+    runRefinements(obj, schema, ctx, path);
+  }
+}
+
+function runRefinements(
+  obj: Record<string, any>,
+  schema: AnySchema,
+  ctx: ValidationContext,
+  path: string
+): void {
+  for (const refinement of refinements.get(schema) ?? []) {
+    if (typeof refinement === "function" && ctx.partial) continue;
+
+    const check =
+      typeof refinement === "function" ? refinement : refinement.check;
+    const result = check(obj);
+    if (!result) continue;
+
+    const issues: readonly RefinementIssue[] = Array.isArray(result)
+      ? result
+      : [result];
+    for (const { path: subPath, code = "custom", message, params } of issues) {
+      const issuePath = subPath ? joinPath(path, subPath) : path;
+      report(ctx, issuePath, code, params, message);
     }
   }
+}
 
+function throwIfErrors(ctx: ValidationContext): void {
   // Filter out keys with no errors
   const fieldErrors = Object.fromEntries(
-    Object.entries(errors).filter(([_, errs]) => errs.length > 0)
+    Object.entries(ctx.errors).filter(([_, errs]) => errs.length > 0)
   );
 
   if (Object.keys(fieldErrors).length > 0) {
     const errorMessage = Object.entries(fieldErrors)
       .map(([key, errs]) => `${key}: ${errs.join(", ")}`)
       .join("; ");
-    throw new ValidationError(errorMessage, fieldErrors);
+    throw new ValidationError(errorMessage, fieldErrors, ctx.issues);
+  }
+}
+
+// Strips unknown keys from nested objects, including objects inside arrays
+function sanitizeValue(value: any, rules: AnyFieldRules): any {
+  for (const rule of toRuleArray(rules)) {
+    if (typeof rule !== "object") continue;
+
+    if ("schema" in rule && isPlainObject(value)) {
+      return sanitizeFields(value, rule.schema);
+    }
+    if ("items" in rule && Array.isArray(value)) {
+      return value.map((item) => sanitizeValue(item, rule.items));
+    }
   }
 
-  return obj as T;
+  return value;
 }
 
-// Helper for partial validation (useful for PATCH requests)
-export function validatePartial<T = any>(
-  data: unknown,
-  schema: ValidationSchema
-): Partial<T> {
-  if (!data || typeof data !== "object" || Array.isArray(data)) {
-    throw new ValidationError("Data must be an object");
+function sanitizeFields(
+  obj: Record<string, any>,
+  schema: AnySchema
+): Record<string, any> {
+  const sanitized: Record<string, any> = {};
+
+  for (const [key, rules] of Object.entries(schema)) {
+    if (!(key in obj)) continue;
+
+    sanitized[key] = sanitizeValue(obj[key], rules);
+  }
+
+  return sanitized;
+}
+
+// Converts strings to the number/boolean/array shapes the rules describe.
+// Values that can't be converted are left as-is so the rules report them.
+function coerceValue(
+  value: any,
+  rules: AnyFieldRules,
+  registry: RuleRegistry
+): any {
+  const ruleArray = toRuleArray(rules);
+  const types = new Set<string>();
+  let items: AnyFieldRules | undefined;
+  let schema: AnySchema | undefined;
+
+  for (const rule of ruleArray) {
+    if (typeof rule === "string") {
+      types.add(rule.endsWith("?") ? rule.slice(0, -1) : rule);
+    } else if ("items" in rule) {
+      items = rule.items;
+    } else if ("schema" in rule) {
+      schema = rule.schema;
+    }
+  }
+
+  if (value === undefined || value === null) return value;
+
+  if ((types.has("array") || items) && !Array.isArray(value)) {
+    // A key that appeared once in a query string still counts as a list
+    value = [value];
+  }
+  if (Array.isArray(value)) {
+    return items
+      ? value.map((item) => coerceValue(item, items!, registry))
+      : value;
+  }
+  if (isPlainObject(value)) {
+    return schema ? coerceFields(value, schema, registry) : value;
   }
+  if (typeof value !== "string") return value;
 
-  const obj = data as Record<string, any>;
-  const errors: Record<string, string[]> = {};
+  for (const type of types) {
+    const coerce = registry.get(type)?.coerce;
+    if (coerce) return coerce(value);
+  }
+
+  if (types.has("number") || types.has("integer")) {
+    const trimmed = value.trim();
+    if (trimmed === "") return undefined;
+    const num = Number(trimmed);
+    if (!isNaN(num)) return num;
+  }
+  if (types.has("boolean")) {
+    if (value === "") return undefined;
+    if (value === "true") return true;
+    if (value === "false") return false;
+  }
+
+  return value;
+}
+
+function coerceFields(
+  obj: Record<string, any>,
+  schema: AnySchema,
+  registry: RuleRegistry
+): Record<string, any> {
+  const coerced: Record<string, any> = { ...obj };
 
-  // Only validate fields that are present in the data
   for (const [key, rules] of Object.entries(schema)) {
-    if (!(key in obj)) continue; // Skip fields not in data
+    if (key in obj) coerced[key] = coerceValue(obj[key], rules, registry);
+  }
 
-    const value = obj[key];
-    const ruleArray = Array.isArray(rules) ? rules : [rules];
+  return coerced;
+}
 
-    for (const rule of ruleArray) {
-      validateRule(key, value, rule, errors);
+// Turns URLSearchParams / FormData into an object, collecting repeated keys
+function queryToObject(input: QueryInput): Record<string, any> {
+  if (!(input instanceof URLSearchParams || input instanceof FormData)) {
+    return input;
+  }
+
+  const obj: Record<string, any> = {};
+  input.forEach((value: any, key: string) => {
+    if (!Object.prototype.hasOwnProperty.call(obj, key)) {
+      obj[key] = value;
+    } else if (Array.isArray(obj[key])) {
+      obj[key].push(value);
+    } else {
+      obj[key] = [obj[key], value];
     }
+  });
+
+  return obj;
+}
+
+function createContext(
+  data: unknown,
+  schema: AnySchema,
+  partial: boolean,
+  options: ValidateOptions,
+  rules: RuleRegistry
+): { obj: Record<string, any>; ctx: ValidationContext } {
+  const messages = getMessages(options.locale);
+  if (!isPlainObject(data)) {
+    throw new ValidationError(messages.invalidData);
   }
 
-  const fieldErrors = Object.fromEntries(
-    Object.entries(errors).filter(([_, errs]) => errs.length > 0)
-  );
+  const obj = options.coerce ? coerceFields(data, schema, rules) : data;
+  const ctx: ValidationContext = {
+    errors: {},
+    issues: [],
+    partial,
+    messages,
+    rules,
+    limit: options.abortEarly ? 1 : options.maxErrors ?? Infinity,
+  };
+  return { obj, ctx };
+}
 
-  if (Object.keys(fieldErrors).length > 0) {
-    const errorMessage = Object.entries(fieldErrors)
-      .map(([key, errs]) => `${key}: ${errs.join(", ")}`)
-      .join("; ");
-    throw new ValidationError(errorMessage, fieldErrors);
+function runValidation(
+  data: unknown,
+  schema: AnySchema,
+  partial: boolean,
+  options: ValidateOptions,
+  rules: RuleRegistry = NO_RULES
+): Record<string, any> {
+  const { obj, ctx } = createContext(data, schema, partial, options, rules);
+  try {
+    validateFields(obj, schema, ctx, "");
+  } catch (err) {
+    if (err !== LIMIT_REACHED) throw err;
   }
+  throwIfErrors(ctx);
 
-  return obj as Partial<T>;
+  return obj;
 }
 
-// Helper to sanitize input (removes unknown fields)
-export function sanitize<T = any>(data: unknown, schema: ValidationSchema): T {
-  if (!data || typeof data !== "object" || Array.isArray(data)) {
-    throw new ValidationError("Data must be an object");
+const DEFAULT_CONCURRENCY = 10;
+
+const TIMED_OUT = Symbol("timed out");
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number | undefined
+): Promise<T | typeof TIMED_OUT> {
+  if (!ms) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), ms);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+// Runs the deferred custom rules with limited concurrency, skipping fields
+// that already failed, then the refinements of objects whose fields passed
+async function runDeferred(
+  ctx: ValidationContext,
+  deferred: DeferredWork,
+  options: AsyncValidateOptions
+): Promise<void> {
+  const { concurrency = DEFAULT_CONCURRENCY, timeout } = options;
+  // A field's checks run one after another, so a failing sync rule keeps the
+  // field's later (async) rules from starting; fields run concurrently
+  const byPath = new Map<string, DeferredWork["checks"]>();
+  for (const check of deferred.checks) {
+    byPath.set(check.path, [...(byPath.get(check.path) ?? []), check]);
   }
+  const fields = [...byPath.values()];
+  let next = 0;
+  let stopped = false;
 
-  const obj = data as Record<string, any>;
-  const sanitized: Record<string, any> = {};
+  const worker = async (): Promise<void> => {
+    try {
+      while (next < fields.length && !stopped) {
+        for (const { path, value, rule } of fields[next++]) {
+          if (ctx.errors[path]?.length) break;
+
+          const pending = Promise.resolve().then(() => rule.custom(value));
+          const result = await withTimeout(pending, timeout);
+          if (stopped) return;
 
-  for (const key of Object.keys(schema)) {
-    if (key in obj) {
-      sanitized[key] = obj[key];
+          if (result === TIMED_OUT) {
+            report(ctx, path, "timeout", { timeout });
+          } else {
+            reportCustom(ctx, path, result, rule.message);
+          }
+        }
+      }
+    } catch (err) {
+      // Results that arrive after a failure or the issue limit are dropped
+      stopped = true;
+      throw err;
     }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, fields.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  for (const { obj, schema, path } of deferred.refinements) {
+    const prefix = `${path}.`;
+    const failed = ctx.issues.some(
+      (issue) => path === "" || issue.path.startsWith(prefix)
+    );
+    if (!failed) runRefinements(obj, schema, ctx, path);
   }
+}
+
+async function runValidationAsync(
+  data: unknown,
+  schema: AnySchema,
+  partial: boolean,
+  options: AsyncValidateOptions,
+  rules: RuleRegistry = NO_RULES
+): Promise<Record<string, any>> {
+  const { obj, ctx } = createContext(data, schema, partial, options, rules);
+  const deferred: DeferredWork = { checks: [], refinements: [] };
+  ctx.deferred = deferred;
+  try {
+    validateFields(obj, schema, ctx, "");
+    await runDeferred(ctx, deferred, options);
+  } catch (err) {
+    if (err !== LIMIT_REACHED) throw err;
+  }
+  throwIfErrors(ctx);
+
+  return obj;
+}
 
-  return sanitized as T;
+export function validate<const S extends ValidationSchema>(
+  data: unknown,
+  schema: S,
+  options?: ValidateOptions
+): Infer<S>;
+export function validate<T = any>(
+  data: unknown,
+  schema: ValidationSchema,
+  options?: ValidateOptions
+): T;
+export function validate(
+  data: unknown,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): unknown {
+  return runValidation(data, schema, false, options);
+}
+
+// Helper for partial validation (useful for PATCH requests)
+export function validatePartial<const S extends ValidationSchema>(
+  data: unknown,
+  schema: S,
+  options?: ValidateOptions
+): Partial<Infer<S>>;
+export function validatePartial<T = any>(
+  data: unknown,
+  schema: ValidationSchema,
+  options?: ValidateOptions
+): Partial<T>;
+export function validatePartial(
+  data: unknown,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): unknown {
+  return runValidation(data, schema, true, options);
+}
+
+// Like validate, but custom rules may return a Promise (e.g. database lookups).
+// They run once the field's other rules passed, options.concurrency at a time.
+export function validateAsync<const S extends ValidationSchema>(
+  data: unknown,
+  schema: S,
+  options?: AsyncValidateOptions
+): Promise<Infer<S>>;
+export function validateAsync<T = any>(
+  data: unknown,
+  schema: ValidationSchema,
+  options?: AsyncValidateOptions
+): Promise<T>;
+export function validateAsync(
+  data: unknown,
+  schema: ValidationSchema,
+  options: AsyncValidateOptions = {}
+): Promise<unknown> {
+  return runValidationAsync(data, schema, false, options);
+}
+
+export function validatePartialAsync<const S extends ValidationSchema>(
+  data: unknown,
+  schema: S,
+  options?: AsyncValidateOptions
+): Promise<Partial<Infer<S>>>;
+export function validatePartialAsync<T = any>(
+  data: unknown,
+  schema: ValidationSchema,
+  options?: AsyncValidateOptions
+): Promise<Partial<T>>;
+export function validatePartialAsync(
+  data: unknown,
+  schema: ValidationSchema,
+  options: AsyncValidateOptions = {}
+): Promise<unknown> {
+  return runValidationAsync(data, schema, true, options);
+}
+
+// Validates query strings, route params and form data with coercion enabled
+export function validateQuery<const S extends ValidationSchema>(
+  input: QueryInput,
+  schema: S,
+  options?: ValidateOptions
+): Infer<S>;
+export function validateQuery<T = any>(
+  input: QueryInput,
+  schema: ValidationSchema,
+  options?: ValidateOptions
+): T;
+export function validateQuery(
+  input: QueryInput,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): unknown {
+  return runValidation(queryToObject(input), schema, false, {
+    ...options,
+    coerce: true,
+  });
+}
+
+// Helper to sanitize input (removes unknown fields, including nested ones)
+export function sanitize<T = any>(data: unknown, schema: ValidationSchema): T {
+  if (!isPlainObject(data)) {
+    throw new ValidationError("Data must be an object");
+  }
+
+  return sanitizeFields(data, schema) as T;
 }
 
 // Combined validate and sanitize
+export function validateAndSanitize<const S extends ValidationSchema>(
+  data: unknown,
+  schema: S,
+  options?: ValidateOptions
+): Infer<S>;
 export function validateAndSanitize<T = any>(
   data: unknown,
-  schema: ValidationSchema
-): T {
+  schema: ValidationSchema,
+  options?: ValidateOptions
+): T;
+export function validateAndSanitize(
+  data: unknown,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): unknown {
+  if (!isPlainObject(data)) {
+    throw new ValidationError(getMessages(options.locale).invalidData);
+  }
+
   const sanitized = sanitize(data, schema);
-  return validate<T>(sanitized, schema);
+  return validate(sanitized, schema, options);
+}
+
+export type Validator<R extends readonly NamedRule<string, any>[]> = {
+  validate<const S extends ValidationSchema<R[number]["name"]>>(
+    data: unknown,
+    schema: S,
+    options?: ValidateOptions
+  ): Infer<S, RuleTypes<R>>;
+  validatePartial<const S extends ValidationSchema<R[number]["name"]>>(
+    data: unknown,
+    schema: S,
+    options?: ValidateOptions
+  ): Partial<Infer<S, RuleTypes<R>>>;
+  validateAsync<const S extends ValidationSchema<R[number]["name"]>>(
+    data: unknown,
+    schema: S,
+    options?: AsyncValidateOptions
+  ): Promise<Infer<S, RuleTypes<R>>>;
+  validatePartialAsync<const S extends ValidationSchema<R[number]["name"]>>(
+    data: unknown,
+    schema: S,
+    options?: AsyncValidateOptions
+  ): Promise<Partial<Infer<S, RuleTypes<R>>>>;
+  validateQuery<const S extends ValidationSchema<R[number]["name"]>>(
+    input: QueryInput,
+    schema: S,
+    options?: ValidateOptions
+  ): Infer<S, RuleTypes<R>>;
+  validateAndSanitize<const S extends ValidationSchema<R[number]["name"]>>(
+    data: unknown,
+    schema: S,
+    options?: ValidateOptions
+  ): Infer<S, RuleTypes<R>>;
+  sanitize<T = any>(
+    data: unknown,
+    schema: ValidationSchema<R[number]["name"]>
+  ): T;
+  refine<const S extends ValidationSchema<R[number]["name"]>>(
+    schema: S,
+    ...checks: SchemaRefinement<Infer<S, RuleTypes<R>>>[]
+  ): S;
+};
+
+// Validation functions that also understand the given named rules:
+// const { validate } = createValidator({ rules: [slug] })
+// validate(body, { handle: "slug", alias: "slug?" })
+export function createValidator<
+  const R extends readonly NamedRule<string, any>[]
+>(config: { rules: R }): Validator<R> {
+  const registry: RuleRegistry = new Map(
+    config.rules.map((rule) => [rule.name, rule])
+  );
+
+  // The same functions over any schema; Validator<R> adds the typed results
+  const validator = {
+    validate: (
+      data: unknown,
+      schema: AnySchema,
+      options: ValidateOptions = {}
+    ) => runValidation(data, schema, false, options, registry),
+    validatePartial: (
+      data: unknown,
+      schema: AnySchema,
+      options: ValidateOptions = {}
+    ) => runValidation(data, schema, true, options, registry),
+    validateAsync: (
+      data: unknown,
+      schema: AnySchema,
+      options: AsyncValidateOptions = {}
+    ) => runValidationAsync(data, schema, false, options, registry),
+    validatePartialAsync: (
+      data: unknown,
+      schema: AnySchema,
+      options: AsyncValidateOptions = {}
+    ) => runValidationAsync(data, schema, true, options, registry),
+    validateQuery: (
+      input: QueryInput,
+      schema: AnySchema,
+      options: ValidateOptions = {}
+    ) =>
+      runValidation(
+        queryToObject(input),
+        schema,
+        false,
+        { ...options, coerce: true },
+        registry
+      ),
+    validateAndSanitize: (
+      data: unknown,
+      schema: AnySchema,
+      options: ValidateOptions = {}
+    ) => {
+      if (!isPlainObject(data)) {
+        throw new ValidationError(getMessages(options.locale).invalidData);
+      }
+      return runValidation(
+        sanitizeFields(data, schema),
+        schema,
+        false,
+        options,
+        registry
+      );
+    },
+    sanitize,
+    refine,
+  };
+  return validator as Validator<R>;
 }
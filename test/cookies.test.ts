@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { serializeCookie } from "../src/cookies";
+
+describe("serializeCookie", () => {
+  it("serializes name and value with a default path", () => {
+    expect(serializeCookie({ name: "theme", value: "dark" })).toBe(
+      "theme=dark; Path=/"
+    );
+  });
+
+  it("encodes the value", () => {
+    expect(serializeCookie({ name: "q", value: "a b;c" })).toBe(
+      "q=a%20b%3Bc; Path=/"
+    );
+  });
+
+  it("serializes all attributes", () => {
+    const out = serializeCookie({
+      name: "session",
+      value: "abc",
+      domain: "example.com",
+      path: "/app",
+      expires: new Date("2030-01-01T00:00:00Z"),
+      maxAge: 3600,
+      httpOnly: true,
+      secure: true,
+      sameSite: "lax",
+      partitioned: true,
+      priority: "high",
+    });
+    expect(out).toBe(
+      "session=abc; Domain=example.com; Path=/app; " +
+        "Expires=Tue, 01 Jan 2030 00:00:00 GMT; Max-Age=3600; HttpOnly; " +
+        "Secure; SameSite=Lax; Partitioned; Priority=High"
+    );
+  });
+
+  it("forces Secure for SameSite=None", () => {
+    expect(serializeCookie({ name: "a", value: "1", sameSite: "none" })).toBe(
+      "a=1; Path=/; Secure; SameSite=None"
+    );
+  });
+
+  it("rejects invalid cookie names", () => {
+    expect(() => serializeCookie({ name: "bad name", value: "1" })).toThrow(
+      TypeError
+    );
+  });
+});
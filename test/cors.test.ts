@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { withCors, corsPreflight, corsMiddleware } from "../src/cors";
+import { createHandler } from "../src/middleware";
+import { success, withHandler } from "../src/format";
+import { ApiError } from "../src/errors";
+
+const request = (
+  origin?: string,
+  init: RequestInit & { headers?: Record<string, string> } = {}
+) =>
+  new Request("http://localhost/api/items", {
+    ...init,
+    headers: { ...(origin ? { Origin: origin } : {}), ...init.headers },
+  });
+
+const preflightRequest = (
+  origin: string,
+  headers: Record<string, string> = {}
+) =>
+  request(origin, {
+    method: "OPTIONS",
+    headers: { "Access-Control-Request-Method": "POST", ...headers },
+  });
+
+describe("withCors", () => {
+  it("allows any origin by default", async () => {
+    const handler = withCors()(() => success({}));
+    const r = await handler(request("https://a.com"));
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(r.headers.get("Vary")).toBeNull();
+  });
+
+  it("echoes allowed origins from a list and varies on Origin", async () => {
+    const handler = withCors({
+      origin: ["https://a.com", /\.example\.com$/],
+    })(() => success({}));
+
+    const a = await handler(request("https://a.com"));
+    expect(a.headers.get("Access-Control-Allow-Origin")).toBe("https://a.com");
+    expect(a.headers.get("Vary")).toBe("Origin");
+
+    const sub = await handler(request("https://app.example.com"));
+    expect(sub.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+
+    const other = await handler(request("https://evil.com"));
+    expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(other.headers.get("Vary")).toBe("Origin");
+  });
+
+  it("supports an origin function", async () => {
+    const handler = withCors({
+      origin: async (origin) => origin.endsWith(".test"),
+    })(() => success({}));
+    const r = await handler(request("https://site.test"));
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://site.test"
+    );
+  });
+
+  it("rejects credentials with a wildcard origin", () => {
+    const message =
+      'CORS credentials require an explicit origin list, RegExp or function, not "*"';
+    expect(() => withCors({ credentials: true })).toThrow(message);
+    expect(() =>
+      corsPreflight({ origin: ["*", "https://a.com"], credentials: true })
+    ).toThrow(TypeError);
+    expect(() => corsMiddleware({ credentials: true })).toThrow(message);
+  });
+
+  it("echoes the origin when credentials are enabled", async () => {
+    const handler = withCors({
+      origin: /^https:\/\/a\.com$/,
+      credentials: true,
+      exposedHeaders: ["X-Total-Count", "Link"],
+    })(() => success({}));
+    const r = await handler(request("https://a.com"));
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe("https://a.com");
+    expect(r.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+    expect(r.headers.get("Access-Control-Expose-Headers")).toBe(
+      "X-Total-Count, Link"
+    );
+  });
+
+  it("merges Vary with existing values", async () => {
+    const handler = withCors({ origin: "https://a.com" })(() =>
+      success({}, { headers: { Vary: "Accept-Encoding" } })
+    );
+    const r = await handler(request("https://a.com"));
+    expect(r.headers.get("Vary")).toBe("Accept-Encoding, Origin");
+  });
+
+  it("leaves requests without an Origin alone", async () => {
+    const handler = withCors()(() => success({}));
+    const r = await handler(request());
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+
+  it("decorates error responses from withHandler", async () => {
+    const handler = withCors({ origin: "https://a.com" })(
+      withHandler((_req: Request) => {
+        throw new ApiError("Not found", 404);
+      })
+    );
+    const r = await handler(request("https://a.com"));
+    expect(r.status).toBe(404);
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe("https://a.com");
+  });
+});
+
+describe("corsPreflight", () => {
+  it("answers with 204 and the allowed methods and headers", async () => {
+    const r = await corsPreflight({
+      origin: "https://a.com",
+      methods: ["GET", "POST"],
+      maxAge: 600,
+    })(
+      preflightRequest("https://a.com", {
+        "Access-Control-Request-Headers": "content-type, authorization",
+      })
+    );
+
+    expect(r.status).toBe(204);
+    expect(await r.text()).toBe("");
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe("https://a.com");
+    expect(r.headers.get("Access-Control-Allow-Methods")).toBe("GET, POST");
+    expect(r.headers.get("Access-Control-Allow-Headers")).toBe(
+      "content-type, authorization"
+    );
+    expect(r.headers.get("Access-Control-Max-Age")).toBe("600");
+    expect(r.headers.get("Vary")).toBe(
+      "Origin, Access-Control-Request-Headers"
+    );
+  });
+
+  it("uses the configured allowed headers", async () => {
+    const r = await corsPreflight({ allowedHeaders: ["Content-Type"] })(
+      preflightRequest("https://a.com", {
+        "Access-Control-Request-Headers": "x-anything",
+      })
+    );
+    expect(r.headers.get("Access-Control-Allow-Headers")).toBe("Content-Type");
+  });
+
+  it("omits CORS headers for disallowed origins", async () => {
+    const r = await corsPreflight({ origin: "https://a.com" })(
+      preflightRequest("https://evil.com")
+    );
+    expect(r.status).toBe(204);
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(r.headers.get("Access-Control-Allow-Methods")).toBeNull();
+  });
+});
+
+describe("corsMiddleware", () => {
+  it("decorates pipeline responses and answers preflights", async () => {
+    const handler = createHandler()
+      .use(corsMiddleware({ origin: "https://a.com" }))
+      .handle(() => {
+        throw new ApiError("Forbidden", 403);
+      });
+
+    const r = await handler(request("https://a.com"));
+    expect(r.status).toBe(403);
+    expect(r.headers.get("Access-Control-Allow-Origin")).toBe("https://a.com");
+
+    const pre = await handler(preflightRequest("https://a.com"));
+    expect(pre.status).toBe(204);
+  });
+});
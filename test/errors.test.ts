@@ -1,5 +1,13 @@
-import { describe, it, expect } from "vitest";
-import { ApiError } from "../src/errors";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+  ApiError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+  defineErrors,
+} from "../src/errors";
+import type { ErrorCode } from "../src/errors";
 
 describe("ApiError", () => {
   it("stores status and message", () => {
@@ -123,4 +131,77 @@ describe("ApiError", () => {
     const msg: string = e.message;
     expect(msg).toBe("Custom message");
   });
+
+  it("stores code and details", () => {
+    const e = new ApiError("User not found", 404, {
+      code: "USER_NOT_FOUND",
+      details: { id: "42" },
+    });
+    expect(e.code).toBe("USER_NOT_FOUND");
+    expect(e.details).toEqual({ id: "42" });
+  });
+});
+
+describe("ApiError subclasses", () => {
+  it("carry their status, name and default message", () => {
+    const e = new NotFoundError();
+    expect(e).toBeInstanceOf(ApiError);
+    expect(e).toBeInstanceOf(NotFoundError);
+    expect(e.status).toBe(404);
+    expect(e.name).toBe("NotFoundError");
+    expect(e.message).toBe("Not Found");
+
+    expect(new BadRequestError().status).toBe(400);
+    expect(new ConflictError().status).toBe(409);
+    expect(new ServiceUnavailableError().status).toBe(503);
+  });
+
+  it("accept a message and ApiError options", () => {
+    const e = new ConflictError("Email taken", {
+      code: "EMAIL_TAKEN",
+      details: { field: "email" },
+    });
+    expect(e.message).toBe("Email taken");
+    expect(e.code).toBe("EMAIL_TAKEN");
+    expect(e.details).toEqual({ field: "email" });
+  });
+});
+
+describe("defineErrors", () => {
+  const errors = defineErrors({
+    USER_NOT_FOUND: { status: 404, message: "User not found" },
+    EMAIL_TAKEN: {
+      status: 409,
+      message: "Email already registered",
+      type: "https://example.com/problems/email-taken",
+    },
+  });
+
+  it("creates ApiErrors from catalog entries", () => {
+    const e = errors.USER_NOT_FOUND();
+    expect(e).toBeInstanceOf(ApiError);
+    expect(e.status).toBe(404);
+    expect(e.message).toBe("User not found");
+    expect(e.code).toBe("USER_NOT_FOUND");
+  });
+
+  it("accepts per-throw message, details and problem members", () => {
+    const e = errors.EMAIL_TAKEN({
+      message: "a@b.com is taken",
+      details: { email: "a@b.com" },
+    });
+    expect(e.message).toBe("a@b.com is taken");
+    expect(e.details).toEqual({ email: "a@b.com" });
+    expect(e.type).toBe("https://example.com/problems/email-taken");
+    expect(e.code).toBe("EMAIL_TAKEN");
+  });
+
+  it("types codes as a union", () => {
+    expectTypeOf(errors.USER_NOT_FOUND().code).toEqualTypeOf<
+      "USER_NOT_FOUND" | undefined
+    >();
+    expectTypeOf<ErrorCode<typeof errors>>().toEqualTypeOf<
+      "USER_NOT_FOUND" | "EMAIL_TAKEN"
+    >();
+  });
 });
@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateETag,
+  conditionalResponse,
+  checkPreconditions,
+} from "../src/etag";
+import { createResponder, success, withHandler } from "../src/format";
+import { createHandler } from "../src/middleware";
+import { ApiError } from "../src/errors";
+import { ndjson, sse } from "../src/stream";
+
+const request = (headers: Record<string, string> = {}, method = "GET") =>
+  new Request("http://localhost/api/items/1", { method, headers });
+
+describe("generateETag", () => {
+  it("returns a stable strong tag for the same body", async () => {
+    const a = await generateETag('{"a":1}');
+    expect(a).toMatch(/^"[A-Za-z0-9_-]+"$/);
+    expect(await generateETag(new TextEncoder().encode('{"a":1}'))).toBe(a);
+    expect(await generateETag('{"a":2}')).not.toBe(a);
+  });
+});
+
+describe("conditionalResponse", () => {
+  it("adds an ETag to 200 GET responses", async () => {
+    const res = await conditionalResponse(request(), success({ id: 1 }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe(
+      await generateETag('{"success":true,"data":{"id":1}}')
+    );
+    expect(await res.json()).toEqual({ success: true, data: { id: 1 } });
+  });
+
+  it("returns 304 with no body when If-None-Match matches", async () => {
+    const first = await conditionalResponse(request(), success({ id: 1 }));
+    const etag = first.headers.get("ETag")!;
+
+    const res = await conditionalResponse(
+      request({ "If-None-Match": `"other", W/${etag}` }),
+      success({ id: 1 }, { headers: { "Cache-Control": "no-cache" } })
+    );
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+    expect(res.headers.get("ETag")).toBe(etag);
+    expect(res.headers.get("Cache-Control")).toBe("no-cache");
+    expect(res.headers.get("Content-Type")).toBeNull();
+  });
+
+  it("sends the full body when the tag is stale", async () => {
+    const res = await conditionalResponse(
+      request({ "If-None-Match": '"stale"' }),
+      success({ id: 1 })
+    );
+    expect(res.status).toBe(200);
+  });
+
+  it("honours If-Modified-Since against Last-Modified", async () => {
+    const modified = new Date("2024-01-01T00:00:00Z").toUTCString();
+    const response = () =>
+      success({ id: 1 }, { headers: { "Last-Modified": modified } });
+
+    const fresh = await conditionalResponse(
+      request({ "If-Modified-Since": modified }),
+      response()
+    );
+    expect(fresh.status).toBe(304);
+
+    const stale = await conditionalResponse(
+      request({ "If-Modified-Since": "Sun, 31 Dec 2023 00:00:00 GMT" }),
+      response()
+    );
+    expect(stale.status).toBe(200);
+  });
+
+  it("ignores If-Modified-Since when If-None-Match is present", async () => {
+    const modified = new Date("2024-01-01T00:00:00Z").toUTCString();
+    const res = await conditionalResponse(
+      request({ "If-None-Match": '"stale"', "If-Modified-Since": modified }),
+      success({ id: 1 }, { headers: { "Last-Modified": modified } })
+    );
+    expect(res.status).toBe(200);
+  });
+
+  it("leaves non-GET and non-200 responses alone", async () => {
+    const post = await conditionalResponse(
+      request({ "If-None-Match": "*" }, "POST"),
+      success({ id: 1 })
+    );
+    expect(post.status).toBe(200);
+    expect(post.headers.get("ETag")).toBeNull();
+
+    const created = await conditionalResponse(
+      request({ "If-None-Match": "*" }),
+      success({ id: 1 }, 201)
+    );
+    expect(created.status).toBe(201);
+  });
+});
+
+describe("checkPreconditions", () => {
+  it("passes when If-Match matches the current resource", async () => {
+    const current = success({ id: 1, title: "a" });
+    const etag = await generateETag(await current.clone().text());
+    await expect(
+      checkPreconditions(request({ "If-Match": etag }, "PUT"), current)
+    ).resolves.toBeUndefined();
+  });
+
+  it("throws 412 when If-Match is stale", async () => {
+    const err = await checkPreconditions(
+      request({ "If-Match": '"stale"' }, "PUT"),
+      { etag: '"current"' }
+    ).catch((e) => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.status).toBe(412);
+  });
+
+  it("never matches weak tags", async () => {
+    await expect(
+      checkPreconditions(request({ "If-Match": 'W/"a"' }, "PATCH"), {
+        etag: 'W/"a"',
+      })
+    ).rejects.toMatchObject({ status: 412 });
+  });
+
+  it("checks If-Unmodified-Since when If-Match is absent", async () => {
+    const headers = { "If-Unmodified-Since": "Mon, 01 Jan 2024 00:00:00 GMT" };
+    await expect(
+      checkPreconditions(request(headers, "PUT"), {
+        lastModified: new Date("2023-06-01"),
+      })
+    ).resolves.toBeUndefined();
+    await expect(
+      checkPreconditions(request(headers, "PUT"), {
+        lastModified: new Date("2024-06-01"),
+      })
+    ).rejects.toMatchObject({ status: 412 });
+  });
+
+  it("requires a precondition when asked to", async () => {
+    await expect(
+      checkPreconditions(request({}, "PUT"), { etag: '"a"' })
+    ).resolves.toBeUndefined();
+    await expect(
+      checkPreconditions(
+        request({}, "PUT"),
+        { etag: '"a"' },
+        { required: true }
+      )
+    ).rejects.toMatchObject({ status: 428 });
+  });
+});
+
+describe("etag handler option", () => {
+  it("answers repeat polls with 304 from withHandler", async () => {
+    const handler = withHandler(
+      (_req: Request) => ({ success: true, data: [1, 2] }),
+      {
+        etag: true,
+      }
+    );
+
+    const first = await handler(request());
+    const etag = first.headers.get("ETag")!;
+    expect(etag).toBeTruthy();
+
+    const second = await handler(request({ "If-None-Match": etag }));
+    expect(second.status).toBe(304);
+  });
+
+  it("is off unless enabled", async () => {
+    const handler = withHandler((_req: Request) => success([1]));
+    const res = await handler(request());
+    expect(res.headers.get("ETag")).toBeNull();
+  });
+
+  it("can be enabled for a whole responder", async () => {
+    const responder = createResponder({ etag: true });
+    const handler = responder.withHandler((_req: Request) =>
+      responder.success([1])
+    );
+    const res = await handler(request());
+    expect(res.headers.get("ETag")).toBeTruthy();
+  });
+
+  it("rejects stale writes with 412", async () => {
+    const handler = withHandler(async (req: Request) => {
+      await checkPreconditions(req, success({ id: 1, version: 2 }));
+      return success({ id: 1, version: 3 });
+    });
+
+    const res = await handler(request({ "If-Match": '"stale"' }, "PUT"));
+    expect(res.status).toBe(412);
+    expect(await res.json()).toEqual({
+      success: false,
+      error: "Precondition Failed",
+    });
+  });
+
+  it("tags the final response of a createHandler pipeline", async () => {
+    const handler = createHandler({ etag: true })
+      .use(async (_req, _ctx, next) => {
+        const res = await next();
+        res.headers.set("X-Served-By", "api");
+        return res;
+      })
+      .handle(() => success({ id: 1 }));
+
+    const first = await handler(request());
+    const etag = first.headers.get("ETag")!;
+    expect(first.headers.get("X-Served-By")).toBe("api");
+
+    const second = await handler(request({ "If-None-Match": etag }));
+    expect(second.status).toBe(304);
+    expect(second.headers.get("X-Served-By")).toBe("api");
+  });
+});
+
+describe("streaming responses", () => {
+  async function* ticks() {
+    for (let i = 0; ; i++) {
+      yield { i };
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  }
+
+  it("passes sse() responses through unchanged", async () => {
+    const handler = withHandler(
+      (req: Request) => sse(ticks(), { signal: req.signal }),
+      {
+        etag: true,
+      }
+    );
+    const res = await handler(request({ "If-None-Match": "*" }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBeNull();
+    expect(res.headers.get("Content-Type")).toBe(
+      "text/event-stream; charset=utf-8"
+    );
+    const reader = res.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toContain('data: {"i":0}');
+    await reader.cancel();
+  });
+
+  it("does not buffer ndjson or bodies of unknown length", async () => {
+    const lines = ndjson(ticks());
+    expect(await conditionalResponse(request(), lines)).toBe(lines);
+
+    const download = new Response(new ReadableStream(), {
+      headers: { "Content-Type": "application/octet-stream" },
+    });
+    expect(await conditionalResponse(request(), download)).toBe(download);
+    await lines.body!.cancel();
+  });
+});
@@ -1,4 +1,11 @@
-import { describe, it, expect } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  beforeEach,
+  afterEach,
+} from "vitest";
 import {
   formatSuccess,
   formatError,
@@ -6,12 +13,23 @@ import {
   success,
   error,
   created,
+  accepted,
+  noContent,
+  badRequest,
   unauthorized,
   forbidden,
   notFound,
+  conflict,
+  gone,
+  unprocessable,
+  tooManyRequests,
+  serviceUnavailable,
   withHandler,
+  createResponder,
 } from "../src/format";
-import { ApiError } from "../src/errors";
+import { ApiError, ConflictError, NotFoundError } from "../src/errors";
+import { ValidationError, validate } from "../src/validate";
+import { configure, getConfig } from "../src/config";
 
 describe("formatSuccess", () => {
   it("formats simple objects", () => {
@@ -56,6 +74,41 @@ describe("formatError", () => {
     expect(out).toEqual({ success: false, error: "" });
   });
 
+  it("includes field errors when provided", () => {
+    const out = formatError("Invalid", { email: ["is required"] });
+    expect(out).toEqual({
+      success: false,
+      error: "Invalid",
+      fields: { email: ["is required"] },
+    });
+  });
+
+  it("omits empty field errors", () => {
+    expect(formatError("Invalid", {})).toEqual({
+      success: false,
+      error: "Invalid",
+    });
+  });
+
+  it("includes code and details when provided", () => {
+    expect(
+      formatError(
+        "Invalid",
+        { email: ["is required"] },
+        {
+          code: "INVALID_INPUT",
+          details: { retryable: false },
+        }
+      )
+    ).toEqual({
+      success: false,
+      error: "Invalid",
+      code: "INVALID_INPUT",
+      details: { retryable: false },
+      fields: { email: ["is required"] },
+    });
+  });
+
   it("formats long error messages", () => {
     const longMsg = "A".repeat(500);
     const out = formatError(longMsg);
@@ -155,6 +208,21 @@ describe("error helper", () => {
     expect(j).toEqual({ success: false, error: "Nope" });
   });
 
+  it("accepts code and details in options", async () => {
+    const r = error("Out of stock", {
+      status: 409,
+      code: "OUT_OF_STOCK",
+      details: { sku: "A1" },
+    });
+    expect(r.status).toBe(409);
+    expect(await r.json()).toEqual({
+      success: false,
+      error: "Out of stock",
+      code: "OUT_OF_STOCK",
+      details: { sku: "A1" },
+    });
+  });
+
   it("preserves error message exactly", async () => {
     const msg = "Validation failed: email is required, password too short";
     const r = error(msg, 400);
@@ -183,6 +251,54 @@ describe("convenience shortcuts", () => {
     });
   });
 
+  describe("accepted", () => {
+    it("returns 202 with the data", async () => {
+      const r = accepted({ jobId: "j1" });
+      expect(r.status).toBe(202);
+      expect(await r.json()).toEqual({ success: true, data: { jobId: "j1" } });
+    });
+  });
+
+  describe("noContent", () => {
+    it("returns 204 with an empty body and no Content-Type", async () => {
+      const r = noContent({ headers: { "X-Deleted": "1" } });
+      expect(r.status).toBe(204);
+      expect(r.body).toBeNull();
+      expect(r.headers.get("Content-Type")).toBeNull();
+      expect(r.headers.get("X-Deleted")).toBe("1");
+    });
+  });
+
+  describe("error shortcuts", () => {
+    it("use the status reason phrase as default message", async () => {
+      const cases: [Response, number, string][] = [
+        [badRequest(), 400, "Bad Request"],
+        [conflict(), 409, "Conflict"],
+        [gone(), 410, "Gone"],
+        [unprocessable(), 422, "Unprocessable Content"],
+        [tooManyRequests(), 429, "Too Many Requests"],
+        [serviceUnavailable(), 503, "Service Unavailable"],
+      ];
+      for (const [r, status, message] of cases) {
+        expect(r.status).toBe(status);
+        expect(await r.json()).toEqual({ success: false, error: message });
+      }
+    });
+
+    it("accept a message, headers and code", async () => {
+      const r = tooManyRequests("Slow down", {
+        headers: { "Retry-After": "30" },
+        code: "RATE_LIMITED",
+      });
+      expect(r.headers.get("Retry-After")).toBe("30");
+      expect(await r.json()).toEqual({
+        success: false,
+        error: "Slow down",
+        code: "RATE_LIMITED",
+      });
+    });
+  });
+
   describe("unauthorized", () => {
     it("returns 401 with default message", async () => {
       const r = unauthorized();
@@ -267,14 +383,62 @@ describe("withHandler", () => {
     expect(json).toEqual({ success: false, error: "Not authorized" });
   });
 
+  it("maps ValidationError to 422 with field details", async () => {
+    const handler = withHandler(() => {
+      throw new ValidationError("age: must be at least 18", {
+        age: ["must be at least 18"],
+      });
+    });
+    const result = await handler();
+    expect(result.status).toBe(422);
+    const json = await result.json();
+    expect(json).toEqual({
+      success: false,
+      error: "age: must be at least 18",
+      fields: { age: ["must be at least 18"] },
+    });
+  });
+
+  it("adds validation issues to the body", async () => {
+    const handler = withHandler(() =>
+      success(validate({ age: 12 }, { age: ["number", { min: 18 }] }))
+    );
+    const json = await (await handler()).json();
+    expect(json.fields).toEqual({ age: ["must be at least 18"] });
+    expect(json.issues).toEqual([
+      {
+        path: "age",
+        code: "min",
+        params: { min: 18 },
+        message: "must be at least 18",
+      },
+    ]);
+  });
+
+  it("uses configured validation status", async () => {
+    const handler = withHandler(
+      () => {
+        throw new ValidationError("Data must be an object");
+      },
+      { validationStatus: 400 }
+    );
+    const result = await handler();
+    expect(result.status).toBe(400);
+    const json = await result.json();
+    expect(json).toEqual({ success: false, error: "Data must be an object" });
+  });
+
   it("catches generic thrown errors", async () => {
     // Suppress console.error for this test since it's expected behavior
     const originalError = console.error;
     console.error = () => {};
 
-    const handler = withHandler(() => {
-      throw new Error("Unexpected crash");
-    });
+    const handler = withHandler(
+      () => {
+        throw new Error("Unexpected crash");
+      },
+      { exposeErrors: false }
+    );
     const result = await handler();
     expect(result.status).toBe(500);
     const json = await result.json();
@@ -313,6 +477,43 @@ describe("withHandler", () => {
     expect(json.error).toBe("Payment required");
   });
 
+  it("serializes ApiError code and details", async () => {
+    const handler = withHandler(() => {
+      throw new ApiError("User not found", 404, {
+        code: "USER_NOT_FOUND",
+        details: { id: "42" },
+      });
+    });
+    const result = await handler();
+    expect(result.status).toBe(404);
+    expect(await result.json()).toEqual({
+      success: false,
+      error: "User not found",
+      code: "USER_NOT_FOUND",
+      details: { id: "42" },
+    });
+  });
+
+  it("maps ApiError subclasses to their status", async () => {
+    const missing = withHandler(() => {
+      throw new NotFoundError("Post not found");
+    });
+    const r = await missing();
+    expect(r.status).toBe(404);
+    expect(await r.json()).toEqual({ success: false, error: "Post not found" });
+
+    const duplicate = withHandler(() => {
+      throw new ConflictError(undefined, { code: "DUPLICATE" });
+    });
+    const c = await duplicate();
+    expect(c.status).toBe(409);
+    expect(await c.json()).toEqual({
+      success: false,
+      error: "Conflict",
+      code: "DUPLICATE",
+    });
+  });
+
   it("handles async handlers that throw errors", async () => {
     const handler = withHandler(async () => {
       await new Promise((resolve) => setTimeout(resolve, 10));
@@ -371,3 +572,286 @@ describe("withHandler", () => {
     expect(json.data).toBe(null);
   });
 });
+
+describe("exposeErrors", () => {
+  const original = getConfig();
+  const silent = { error: () => {} };
+  const crash = () => {
+    throw new Error("Query failed: password=hunter2", {
+      cause: new TypeError("socket closed"),
+    });
+  };
+
+  beforeEach(() => configure({ logger: silent }));
+  afterEach(() => {
+    configure({
+      logger: original.logger,
+      exposeErrors: original.exposeErrors,
+      redact: undefined,
+    });
+  });
+
+  it("adds message, name, stack and cause chain to 500 bodies", async () => {
+    const handler = withHandler(crash, { exposeErrors: true });
+    const json = await (await handler()).json();
+    expect(json.error).toBe("Internal Server Error");
+    expect(json.debug).toMatchObject({
+      name: "Error",
+      message: "Query failed: password=hunter2",
+      cause: { name: "TypeError", message: "socket closed" },
+    });
+    expect(json.debug.stack).toContain("Query failed");
+  });
+
+  it("omits debug info when off", async () => {
+    configure({ exposeErrors: false });
+    const json = await (await withHandler(crash)()).json();
+    expect(json).toEqual({ success: false, error: "Internal Server Error" });
+  });
+
+  it("leaves ApiError bodies alone", async () => {
+    const handler = withHandler(
+      () => {
+        throw new ApiError("Nope", 403);
+      },
+      { exposeErrors: true }
+    );
+    expect(await (await handler()).json()).toEqual({
+      success: false,
+      error: "Nope",
+    });
+  });
+
+  it("redacts exposed messages and stacks", async () => {
+    configure({
+      exposeErrors: true,
+      redact: (text) => text.replace(/password=\S+/g, "password=[redacted]"),
+    });
+    const text = await (await withHandler(crash)()).text();
+    expect(text).toContain("password=[redacted]");
+    expect(text).not.toContain("hunter2");
+  });
+
+  it("describes thrown non-Error values", async () => {
+    const handler = withHandler(
+      () => {
+        throw "plain string";
+      },
+      { exposeErrors: true }
+    );
+    const json = await (await handler()).json();
+    expect(json.debug).toEqual({ name: "string", message: "plain string" });
+  });
+
+  it("is sent as a problem details extension", async () => {
+    const handler = withHandler(crash, {
+      exposeErrors: true,
+      errorFormat: "problem",
+    });
+    const json = await (await handler()).json();
+    expect(json.detail).toBe("Internal Server Error");
+    expect(json.debug.message).toBe("Query failed: password=hunter2");
+  });
+});
+
+describe("response options", () => {
+  it("accepts an options object in place of a status", async () => {
+    const r = success(
+      { id: 1 },
+      {
+        status: 202,
+        statusText: "Queued",
+        headers: { "Cache-Control": "no-store" },
+      }
+    );
+    expect(r.status).toBe(202);
+    expect(r.statusText).toBe("Queued");
+    expect(r.headers.get("Cache-Control")).toBe("no-store");
+    expect(r.headers.get("Content-Type")).toBe("application/json");
+    expect(await r.json()).toEqual({ success: true, data: { id: 1 } });
+  });
+
+  it("sets cookies", () => {
+    const r = success(
+      { ok: true },
+      {
+        cookies: [
+          { name: "session", value: "abc", httpOnly: true },
+          { name: "theme", value: "dark" },
+        ],
+      }
+    );
+    expect(r.headers.getSetCookie()).toEqual([
+      "session=abc; Path=/; HttpOnly",
+      "theme=dark; Path=/",
+    ]);
+  });
+
+  it("keeps repeated Set-Cookie headers", () => {
+    const r = success(1, {
+      headers: [
+        ["Set-Cookie", "a=1"],
+        ["Set-Cookie", "b=2"],
+        ["X-A", "1"],
+      ],
+      cookies: [{ name: "c", value: "3" }],
+    });
+    expect(r.headers.getSetCookie()).toEqual(["a=1", "b=2", "c=3; Path=/"]);
+    expect(r.headers.get("X-A")).toBe("1");
+  });
+
+  it("defaults the status when only other options are given", () => {
+    expect(success(1, { headers: { "X-A": "1" } }).status).toBe(200);
+    expect(error("x", { headers: { "X-A": "1" } }).status).toBe(400);
+  });
+
+  it("supports options on error helpers", async () => {
+    const r = error("Rate limited", {
+      status: 429,
+      headers: { "Retry-After": "30" },
+    });
+    expect(r.status).toBe(429);
+    expect(r.headers.get("Retry-After")).toBe("30");
+
+    const u = unauthorized("Login required", {
+      headers: { "WWW-Authenticate": "Bearer" },
+      cookies: [{ name: "session", value: "", maxAge: 0 }],
+    });
+    expect(u.status).toBe(401);
+    expect(u.headers.get("WWW-Authenticate")).toBe("Bearer");
+    expect(u.headers.getSetCookie()).toEqual(["session=; Path=/; Max-Age=0"]);
+
+    expect(forbidden(undefined, { headers: { "X-A": "1" } }).status).toBe(403);
+    expect(
+      notFound("Gone", { headers: { "X-A": "1" } }).headers.get("X-A")
+    ).toBe("1");
+  });
+
+  it("sets Location on created when given a URL", () => {
+    expect(created({ id: 1 }, "/api/users/1").headers.get("Location")).toBe(
+      "/api/users/1"
+    );
+    expect(
+      created({ id: 1 }, new URL("https://example.com/users/1")).headers.get(
+        "Location"
+      )
+    ).toBe("https://example.com/users/1");
+
+    const r = created(
+      { id: 1 },
+      { location: "/api/users/1", headers: { "X-A": "1" } }
+    );
+    expect(r.status).toBe(201);
+    expect(r.headers.get("Location")).toBe("/api/users/1");
+    expect(r.headers.get("X-A")).toBe("1");
+  });
+
+  it("supports options on toResponse", () => {
+    const r = toResponse(formatSuccess(1), {
+      status: 203,
+      headers: { "X-A": "1" },
+    });
+    expect(r.status).toBe(203);
+    expect(r.headers.get("X-A")).toBe("1");
+  });
+});
+
+describe("createResponder", () => {
+  type Ok<T = unknown> = { ok: true; result: T; meta: { timestamp: string } };
+  type Fail = { ok: false; message: string; errors?: Record<string, string[]> };
+
+  const timestamp = "2024-01-01T00:00:00.000Z";
+  const api = createResponder<Ok, Fail>({
+    formatSuccess: (data) => ({ ok: true, result: data, meta: { timestamp } }),
+    formatError: (message, _status, fields) => ({
+      ok: false,
+      message,
+      ...(fields ? { errors: fields } : {}),
+    }),
+    isError: (body) => body.ok === false,
+    headers: { "X-Api-Version": "2" },
+  });
+
+  it("uses the custom success envelope", async () => {
+    const r = api.success({ id: 1 });
+    expect(r.status).toBe(200);
+    expect(await r.json()).toEqual({
+      ok: true,
+      result: { id: 1 },
+      meta: { timestamp },
+    });
+  });
+
+  it("uses the custom error envelope", async () => {
+    const r = api.notFound("User not found");
+    expect(r.status).toBe(404);
+    expect(await r.json()).toEqual({ ok: false, message: "User not found" });
+  });
+
+  it("adds configured headers to every response", () => {
+    for (const r of [api.created({}), api.error("x"), api.forbidden()]) {
+      expect(r.headers.get("X-Api-Version")).toBe("2");
+      expect(r.headers.get("Content-Type")).toBe("application/json");
+    }
+  });
+
+  it("supports headers computed per response", () => {
+    let n = 0;
+    const counted = createResponder({
+      headers: () => ({ "X-Count": String(++n) }),
+    });
+    expect(counted.success(1).headers.get("X-Count")).toBe("1");
+    expect(counted.success(2).headers.get("X-Count")).toBe("2");
+  });
+
+  it("maps thrown errors through the custom envelope in withHandler", async () => {
+    const handler = api.withHandler(() => {
+      throw new ApiError("Nope", 403);
+    });
+    const r = await handler();
+    expect(r.status).toBe(403);
+    expect(await r.json()).toEqual({ ok: false, message: "Nope" });
+  });
+
+  it("passes validation fields to the custom error envelope", async () => {
+    const handler = api.withHandler(() => {
+      throw new ValidationError("age: must be a number", {
+        age: ["must be a number"],
+      });
+    });
+    const r = await handler();
+    expect(r.status).toBe(422);
+    expect(await r.json()).toEqual({
+      ok: false,
+      message: "age: must be a number",
+      errors: { age: ["must be a number"] },
+    });
+  });
+
+  it("recognises returned envelopes with isError", async () => {
+    const failing = api.withHandler(() => api.formatError("Bad", 400));
+    expect((await failing()).status).toBe(400);
+
+    const passing = api.withHandler(() => api.formatSuccess("fine", 200));
+    expect((await passing()).status).toBe(200);
+  });
+
+  it("keeps handler return types tied to the custom shapes", () => {
+    expectTypeOf(api.formatSuccess).returns.toEqualTypeOf<Ok>();
+    expectTypeOf(api.formatError).returns.toEqualTypeOf<Fail>();
+    // @ts-expect-error default envelopes are not valid for this responder
+    api.withHandler(() => formatSuccess({ id: 1 }));
+  });
+
+  it("defaults to the standard envelope", async () => {
+    const plain = createResponder();
+    expect(await plain.success({ a: 1 }).json()).toEqual({
+      success: true,
+      data: { a: 1 },
+    });
+    expect(await plain.error("x").json()).toEqual({
+      success: false,
+      error: "x",
+    });
+  });
+});
@@ -67,8 +67,12 @@ describe("Integration: Real-world API handler patterns", () => {
       });
 
       const json = await response.json();
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(422);
       expect(json.success).toBe(false);
+      expect(json.fields).toEqual({
+        email: ["must be a valid email"],
+        age: ["must be at least 18"],
+      });
     });
 
     it("PATCH handler with partial validation", async () => {
@@ -283,8 +287,10 @@ describe("Integration: Real-world API handler patterns", () => {
       });
 
       const json = await response.json();
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(422);
       expect(json.success).toBe(false);
+      expect(Object.keys(json.fields)).toEqual(["name", "email", "age"]);
+      expect(json.fields.name).toEqual(["must be at least 2 characters"]);
     });
 
     it("uses custom error codes", async () => {
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { formatMessage, getMessages, registerLocale } from "../src/messages";
+import { validate, ValidationError } from "../src/validate";
+
+describe("formatMessage", () => {
+  it("interpolates parameters and joins lists", () => {
+    expect(formatMessage("between {min} and {max}", { min: 1, max: 5 })).toBe(
+      "between 1 and 5"
+    );
+    expect(formatMessage("one of: {enum}", { enum: ["a", "b"] })).toBe(
+      "one of: a, b"
+    );
+  });
+
+  it("leaves unknown placeholders untouched", () => {
+    expect(formatMessage("at least {min}", {})).toBe("at least {min}");
+  });
+});
+
+describe("registerLocale", () => {
+  it("adds a locale that falls back to English for missing keys", () => {
+    registerLocale("pt", { required: "é obrigatório" });
+    const messages = getMessages("pt-BR");
+    expect(messages.required).toBe("é obrigatório");
+    expect(messages.number).toBe("must be a number");
+  });
+
+  it("overrides messages of a bundled locale", () => {
+    registerLocale("en-GB", { email: "must be a valid e-mail address" });
+    try {
+      validate({ email: "nope" }, { email: "email" }, { locale: "en-GB" });
+      expect.unreachable();
+    } catch (err) {
+      expect((err as ValidationError).fields.email).toEqual([
+        "must be a valid e-mail address",
+      ]);
+    }
+  });
+});
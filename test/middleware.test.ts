@@ -0,0 +1,164 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { createHandler, defineMiddleware } from "../src/middleware";
+import { createResponder, success, unauthorized } from "../src/format";
+import { ApiError } from "../src/errors";
+
+type User = { id: number; role: string };
+
+const request = (token?: string) =>
+  new Request("http://localhost/api/posts/1", {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+const auth = defineMiddleware<{ user: User }>((req, _ctx, next) => {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return unauthorized("No token provided");
+  return next({ user: { id: 1, role: token } });
+});
+
+describe("createHandler", () => {
+  it("runs the handler without middleware", async () => {
+    const handler = createHandler().handle(() => success({ ok: true }));
+    const r = await handler(request());
+    expect(await r.json()).toEqual({ success: true, data: { ok: true } });
+  });
+
+  it("passes typed context values to the handler", async () => {
+    const handler = createHandler()
+      .use(auth)
+      .handle((_req, ctx) => {
+        expectTypeOf(ctx.user).toEqualTypeOf<User>();
+        return success(ctx.user);
+      });
+
+    const r = await handler(request("admin"));
+    expect(await r.json()).toEqual({
+      success: true,
+      data: { id: 1, role: "admin" },
+    });
+  });
+
+  it("lets middleware short-circuit with a response", async () => {
+    let called = false;
+    const handler = createHandler()
+      .use(auth)
+      .handle(() => {
+        called = true;
+        return success({});
+      });
+
+    const r = await handler(request());
+    expect(r.status).toBe(401);
+    expect(called).toBe(false);
+  });
+
+  it("merges the route context and accumulates values in order", async () => {
+    const order: string[] = [];
+    const handler = createHandler<{ params: { id: string } }>()
+      .use(auth)
+      .use<{ isAdmin: boolean }>((_req, ctx, next) => {
+        order.push(`check ${ctx.user.role}`);
+        return next({ isAdmin: ctx.user.role === "admin" });
+      })
+      .handle((_req, ctx) => {
+        order.push("handler");
+        return success({ id: ctx.params.id, isAdmin: ctx.isAdmin });
+      });
+
+    const r = await handler(request("admin"), { params: { id: "42" } });
+    expect(await r.json()).toEqual({
+      success: true,
+      data: { id: "42", isAdmin: true },
+    });
+    expect(order).toEqual(["check admin", "handler"]);
+  });
+
+  it("runs code after the handler to change the response", async () => {
+    const handler = createHandler()
+      .use(async (_req, _ctx, next) => {
+        const response = await next();
+        response.headers.set("X-Elapsed", "5ms");
+        return response;
+      })
+      .handle(() => success({}));
+
+    const r = await handler(request());
+    expect(r.headers.get("X-Elapsed")).toBe("5ms");
+  });
+
+  it("lets middleware see responses for errors thrown by the handler", async () => {
+    const statuses: number[] = [];
+    const handler = createHandler()
+      .use(async (_req, _ctx, next) => {
+        const response = await next();
+        statuses.push(response.status);
+        return response;
+      })
+      .handle(() => {
+        throw new ApiError("Post not found", 404);
+      });
+
+    const r = await handler(request());
+    expect(r.status).toBe(404);
+    expect(statuses).toEqual([404]);
+  });
+
+  it("maps errors thrown from middleware through ApiError handling", async () => {
+    const handler = createHandler()
+      .use(() => {
+        throw new ApiError("Admin access required", 403);
+      })
+      .handle(() => success({}));
+
+    const r = await handler(request());
+    expect(r.status).toBe(403);
+    expect(await r.json()).toEqual({
+      success: false,
+      error: "Admin access required",
+    });
+  });
+
+  it("rejects calling next twice", async () => {
+    const originalError = console.error;
+    console.error = () => {};
+
+    const handler = createHandler()
+      .use(async (_req, _ctx, next) => {
+        await next();
+        return next();
+      })
+      .handle(() => success({}));
+
+    expect((await handler(request())).status).toBe(500);
+    console.error = originalError;
+  });
+
+  it("passes handler options through", async () => {
+    const handler = createHandler({ errorFormat: "problem" }).handle(() => {
+      throw new ApiError("Nope", 400);
+    });
+    const r = await handler(request());
+    expect(r.headers.get("Content-Type")).toBe("application/problem+json");
+  });
+
+  it("renders through a custom responder", async () => {
+    const api = createResponder({
+      formatError: (message) => ({ ok: false, message }),
+    });
+    const handler = createHandler({ responder: api })
+      .use(() => {
+        throw new ApiError("Denied", 403);
+      })
+      .handle(() => api.success({}));
+
+    const r = await handler(request());
+    expect(await r.json()).toEqual({ ok: false, message: "Denied" });
+  });
+
+  it("requires typed values to be passed to next", () => {
+    defineMiddleware<{ user: User }>((_req, _ctx, next) =>
+      // @ts-expect-error user must be provided
+      next()
+    );
+  });
+});
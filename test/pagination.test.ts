@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatPagination,
+  paginationLinks,
+  parsePagination,
+} from "../src/pagination";
+import type { ParsePaginationOptions } from "../src/pagination";
+import { paginated, createResponder } from "../src/format";
+import { ValidationError } from "../src/validate";
+
+const url = "http://localhost/api/posts?page=2&limit=10&sort=new";
+
+describe("formatPagination", () => {
+  it("builds offset pagination meta", () => {
+    expect(formatPagination({ page: 2, limit: 10, total: 35 })).toEqual({
+      page: 2,
+      limit: 10,
+      total: 35,
+      totalPages: 4,
+      hasNext: true,
+      hasPrev: true,
+    });
+  });
+
+  it("treats an empty result as a single page", () => {
+    expect(formatPagination({ page: 1, limit: 10, total: 0 })).toMatchObject({
+      totalPages: 1,
+      hasNext: false,
+      hasPrev: false,
+    });
+  });
+
+  it("builds cursor pagination meta", () => {
+    expect(formatPagination({ nextCursor: "abc" })).toEqual({
+      nextCursor: "abc",
+      prevCursor: null,
+      hasNext: true,
+      hasPrev: false,
+    });
+  });
+});
+
+describe("paginationLinks", () => {
+  it("builds first/prev/next/last links from the request URL", () => {
+    expect(paginationLinks({ page: 2, limit: 10, total: 35, url })).toBe(
+      [
+        '<http://localhost/api/posts?page=1&limit=10&sort=new>; rel="first"',
+        '<http://localhost/api/posts?page=1&limit=10&sort=new>; rel="prev"',
+        '<http://localhost/api/posts?page=3&limit=10&sort=new>; rel="next"',
+        '<http://localhost/api/posts?page=4&limit=10&sort=new>; rel="last"',
+      ].join(", ")
+    );
+  });
+
+  it("omits prev on the first page and next on the last", () => {
+    const first = paginationLinks({ page: 1, limit: 10, total: 5, url })!;
+    expect(first).not.toContain('rel="prev"');
+    expect(first).not.toContain('rel="next"');
+  });
+
+  it("builds cursor links and drops the page param", () => {
+    expect(
+      paginationLinks({ nextCursor: "n1", prevCursor: "p1", limit: 10, url })
+    ).toBe(
+      '<http://localhost/api/posts?limit=10&sort=new&cursor=p1>; rel="prev", ' +
+        '<http://localhost/api/posts?limit=10&sort=new&cursor=n1>; rel="next"'
+    );
+  });
+
+  it("returns undefined without a URL", () => {
+    expect(paginationLinks({ page: 1, limit: 10, total: 50 })).toBeUndefined();
+  });
+});
+
+describe("paginated", () => {
+  it("puts pagination in meta and sets the Link header", async () => {
+    const r = paginated([{ id: 11 }], { page: 2, limit: 10, total: 35, url });
+    expect(r.status).toBe(200);
+    expect(r.headers.get("Link")).toContain('rel="next"');
+    expect(await r.json()).toEqual({
+      success: true,
+      data: [{ id: 11 }],
+      meta: {
+        pagination: {
+          page: 2,
+          limit: 10,
+          total: 35,
+          totalPages: 4,
+          hasNext: true,
+          hasPrev: true,
+        },
+      },
+    });
+  });
+
+  it("supports cursor pagination", async () => {
+    const r = paginated([1, 2], { nextCursor: "c2", url });
+    expect(r.headers.get("Link")).toContain("cursor=c2");
+    const json = await r.json();
+    expect(json.meta.pagination.nextCursor).toBe("c2");
+  });
+
+  it("passes meta to custom envelopes", async () => {
+    const api = createResponder({
+      formatSuccess: (data, _status, meta) => ({
+        ok: true,
+        result: data,
+        meta,
+      }),
+    });
+    const json = await api
+      .paginated([], { page: 1, limit: 5, total: 0 })
+      .json();
+    expect(json.ok).toBe(true);
+    expect(json.meta.pagination.totalPages).toBe(1);
+  });
+});
+
+describe("parsePagination", () => {
+  const parse = (query: string, options?: ParsePaginationOptions) =>
+    parsePagination(new URLSearchParams(query), options);
+
+  it("uses defaults when params are missing", () => {
+    expect(parse("")).toEqual({ page: 1, limit: 20, offset: 0 });
+  });
+
+  it("reads page, limit and cursor", () => {
+    expect(parse("page=3&limit=10&cursor=abc")).toEqual({
+      page: 3,
+      limit: 10,
+      offset: 20,
+      cursor: "abc",
+    });
+  });
+
+  it("clamps out-of-range values", () => {
+    expect(parse("page=0&limit=500", { maxLimit: 50 })).toEqual({
+      page: 1,
+      limit: 50,
+      offset: 0,
+    });
+    expect(parse("limit=-5").limit).toBe(1);
+  });
+
+  it("rejects non-integer input", () => {
+    try {
+      parse("page=two&limit=1.5");
+      throw new Error("Expected a ValidationError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).fields).toEqual({
+        page: ["must be an integer"],
+        limit: ["must be an integer"],
+      });
+      expect((err as ValidationError).issues).toEqual([
+        {
+          path: "page",
+          code: "integer",
+          params: {},
+          message: "must be an integer",
+        },
+        {
+          path: "limit",
+          code: "integer",
+          params: {},
+          message: "must be an integer",
+        },
+      ]);
+    }
+  });
+
+  it("localizes errors", () => {
+    try {
+      parse("page=x", { locale: "de" });
+      throw new Error("Expected a ValidationError");
+    } catch (err) {
+      expect((err as ValidationError).fields).toEqual({
+        page: ["muss eine ganze Zahl sein"],
+      });
+    }
+  });
+});
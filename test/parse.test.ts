@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { parseJson, parseForm, parseQuery } from "../src/parse";
+import { withHandler, success } from "../src/format";
+import { ApiError } from "../src/errors";
+import { ValidationError } from "../src/validate";
+
+const schema = {
+  name: ["string", { minLength: 2 }],
+  age: "number?",
+} as const;
+
+const jsonRequest = (body: string, headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+  });
+
+const catchError = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error("Expected promise to reject");
+};
+
+describe("parseJson", () => {
+  it("parses, validates and sanitizes the body", async () => {
+    const out = await parseJson(
+      jsonRequest(JSON.stringify({ name: "Jane", age: 30, role: "admin" })),
+      schema
+    );
+    expect(out).toEqual({ name: "Jane", age: 30 });
+  });
+
+  it("accepts +json media types and charset parameters", async () => {
+    const out = await parseJson(
+      jsonRequest(JSON.stringify({ name: "Jane" }), {
+        "Content-Type": "application/merge-patch+json; charset=utf-8",
+      }),
+      schema
+    );
+    expect(out).toEqual({ name: "Jane" });
+  });
+
+  it("rejects malformed JSON with 400", async () => {
+    const err = await catchError(parseJson(jsonRequest("{ name: "), schema));
+    expect(err).toBeInstanceOf(ApiError);
+    expect((err as ApiError).status).toBe(400);
+    expect((err as ApiError).message).toBe("Invalid JSON body");
+  });
+
+  it("rejects other media types with 415", async () => {
+    const err = await catchError(
+      parseJson(
+        jsonRequest("name=Jane", { "Content-Type": "text/plain" }),
+        schema
+      )
+    );
+    expect((err as ApiError).status).toBe(415);
+  });
+
+  it("rejects bodies over the size limit with 413", async () => {
+    const body = JSON.stringify({ name: "x".repeat(100) });
+    const err = await catchError(
+      parseJson(jsonRequest(body), schema, { maxBodySize: 50 })
+    );
+    expect((err as ApiError).status).toBe(413);
+  });
+
+  it("throws ValidationError for invalid data", async () => {
+    const err = await catchError(
+      parseJson(jsonRequest(JSON.stringify({ name: "J" })), schema)
+    );
+    expect(err).toBeInstanceOf(ValidationError);
+  });
+
+  it("maps failures to the right status inside withHandler", async () => {
+    const handler = withHandler(async (request: Request) =>
+      success(await parseJson(request, schema))
+    );
+
+    expect((await handler(jsonRequest("not json"))).status).toBe(400);
+    expect((await handler(jsonRequest('{"name":"J"}'))).status).toBe(422);
+    expect((await handler(jsonRequest('{"name":"Jo"}'))).status).toBe(200);
+  });
+});
+
+describe("parseForm", () => {
+  it("parses urlencoded bodies with coercion", async () => {
+    const request = new Request("http://localhost/api/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "name=Jane&age=30&extra=1",
+    });
+    expect(await parseForm(request, schema)).toEqual({ name: "Jane", age: 30 });
+  });
+
+  it("parses multipart bodies", async () => {
+    const form = new FormData();
+    form.append("name", "Jane");
+    const request = new Request("http://localhost/api/users", {
+      method: "POST",
+      body: form,
+    });
+    expect(await parseForm(request, schema)).toEqual({ name: "Jane" });
+  });
+
+  it("rejects JSON bodies with 415", async () => {
+    const err = await catchError(parseForm(jsonRequest("{}"), schema));
+    expect((err as ApiError).status).toBe(415);
+  });
+});
+
+describe("parseQuery", () => {
+  it("validates and sanitizes the query string", () => {
+    const request = new Request(
+      "http://localhost/api/users?name=Jane&age=7&x=1"
+    );
+    expect(parseQuery(request, schema)).toEqual({ name: "Jane", age: 7 });
+  });
+
+  it("throws ValidationError for invalid params", () => {
+    const request = new Request("http://localhost/api/users?age=old");
+    expect(() => parseQuery(request, schema)).toThrow(ValidationError);
+  });
+});
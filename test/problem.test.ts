@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { formatProblem, problem, statusTitle } from "../src/problem";
+import { configure } from "../src/config";
+import { error, formatError, withHandler } from "../src/format";
+import { ApiError } from "../src/errors";
+import { ValidationError } from "../src/validate";
+
+afterEach(() => {
+  configure({ errorFormat: "default" });
+});
+
+describe("formatProblem", () => {
+  it("fills in type and title from the status", () => {
+    expect(formatProblem(404, { detail: "User not found" })).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+      detail: "User not found",
+    });
+  });
+
+  it("keeps custom members and extensions", () => {
+    const out = formatProblem(409, {
+      type: "https://example.com/problems/duplicate",
+      title: "Duplicate email",
+      instance: "/api/users",
+      email: "jane@example.com",
+    });
+    expect(out.title).toBe("Duplicate email");
+    expect(out.email).toBe("jane@example.com");
+  });
+
+  it("falls back to a generic title for unknown statuses", () => {
+    expect(statusTitle(418)).toBe("Client Error");
+    expect(statusTitle(599)).toBe("Server Error");
+  });
+});
+
+describe("problem helper", () => {
+  it("returns application/problem+json", async () => {
+    const r = problem(403, { detail: "Nope" });
+    expect(r.status).toBe(403);
+    expect(r.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await r.json()).toEqual({
+      type: "about:blank",
+      title: "Forbidden",
+      status: 403,
+      detail: "Nope",
+    });
+  });
+});
+
+describe("error() with a global problem format", () => {
+  it("emits problem details when configured", async () => {
+    configure({ errorFormat: "problem" });
+    const r = error("Invalid input", 400, { email: ["is required"] });
+    expect(r.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await r.json()).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Invalid input",
+      fields: { email: ["is required"] },
+    });
+  });
+
+  it("keeps the default envelope otherwise", async () => {
+    const r = error("Invalid input");
+    expect(r.headers.get("Content-Type")).toBe("application/json");
+    expect(await r.json()).toEqual(formatError("Invalid input"));
+  });
+});
+
+describe("withHandler problem details", () => {
+  const request = (accept?: string) =>
+    new Request("http://localhost/api/users/1", {
+      headers: accept ? { Accept: accept } : {},
+    });
+
+  it("renders ApiError as problem details per handler", async () => {
+    const handler = withHandler(
+      (_request: Request) => {
+        throw new ApiError("User not found", 404, {
+          type: "https://example.com/problems/user-not-found",
+        });
+      },
+      { errorFormat: "problem" }
+    );
+    const r = await handler(request());
+    expect(r.status).toBe(404);
+    expect(r.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await r.json()).toEqual({
+      type: "https://example.com/problems/user-not-found",
+      title: "Not Found",
+      status: 404,
+      detail: "User not found",
+      instance: "/api/users/1",
+    });
+  });
+
+  it("carries code and details as extension members", async () => {
+    const handler = withHandler(
+      () => {
+        throw new ApiError("User not found", 404, {
+          code: "USER_NOT_FOUND",
+          details: { id: "1" },
+        });
+      },
+      { errorFormat: "problem" }
+    );
+    const json = await (await handler()).json();
+    expect(json.code).toBe("USER_NOT_FOUND");
+    expect(json.details).toEqual({ id: "1" });
+  });
+
+  it("carries validation fields as an extension member", async () => {
+    const handler = withHandler(
+      () => {
+        throw new ValidationError("age: must be a number", {
+          age: ["must be a number"],
+        });
+      },
+      { errorFormat: "problem" }
+    );
+    const json = await (await handler()).json();
+    expect(json.status).toBe(422);
+    expect(json.fields).toEqual({ age: ["must be a number"] });
+  });
+
+  it("uses the global setting when the handler has none", async () => {
+    configure({ errorFormat: "problem" });
+    const handler = withHandler(() => {
+      throw new ApiError("Bad", 400);
+    });
+    const r = await handler();
+    expect(r.headers.get("Content-Type")).toBe("application/problem+json");
+  });
+
+  it("negotiates on the Accept header", async () => {
+    const handler = withHandler(
+      (_request: Request) => {
+        throw new ApiError("Gone", 410);
+      },
+      { errorFormat: "negotiate" }
+    );
+
+    const asProblem = await handler(request("application/problem+json"));
+    expect(asProblem.headers.get("Content-Type")).toBe(
+      "application/problem+json"
+    );
+
+    const asJson = await handler(request("application/json"));
+    expect(asJson.headers.get("Content-Type")).toBe("application/json");
+    expect(await asJson.json()).toEqual({ success: false, error: "Gone" });
+  });
+
+  it("lets a handler opt out of a global problem format", async () => {
+    configure({ errorFormat: "problem" });
+    const handler = withHandler(
+      () => {
+        throw new ApiError("Bad", 400);
+      },
+      { errorFormat: "default" }
+    );
+    expect(await (await handler()).json()).toEqual({
+      success: false,
+      error: "Bad",
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  rateLimit,
+  rateLimitMiddleware,
+  createRateLimiter,
+  MemoryRateLimitStore,
+} from "../src/rate-limit";
+import type { RateLimitState, RateLimitStore } from "../src/rate-limit";
+import { createHandler } from "../src/middleware";
+import { success, withHandler } from "../src/format";
+
+const request = (ip = "1.1.1.1", headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/search", {
+    headers: { "x-forwarded-for": `${ip}, 10.0.0.1`, ...headers },
+  });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("rateLimit", () => {
+  const handler = () =>
+    rateLimit({ windowMs: 60_000, max: 2 })(withHandler(() => success({})));
+
+  it("allows requests under the limit and sets RateLimit headers", async () => {
+    const limited = handler();
+    const r = await limited(request());
+    expect(r.status).toBe(200);
+    expect(r.headers.get("RateLimit-Limit")).toBe("2");
+    expect(r.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(r.headers.get("RateLimit-Reset")).toBe("60");
+    expect(r.headers.get("RateLimit-Policy")).toBe("2;w=60");
+  });
+
+  it("returns 429 in the standard envelope once exceeded", async () => {
+    const limited = handler();
+    await limited(request());
+    await limited(request());
+    const r = await limited(request());
+
+    expect(r.status).toBe(429);
+    expect(r.headers.get("Retry-After")).toBe("60");
+    expect(r.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(await r.json()).toEqual({
+      success: false,
+      error: "Too Many Requests",
+    });
+  });
+
+  it("limits each key separately", async () => {
+    const limited = handler();
+    await limited(request("1.1.1.1"));
+    await limited(request("1.1.1.1"));
+    expect((await limited(request("1.1.1.1"))).status).toBe(429);
+    expect((await limited(request("2.2.2.2"))).status).toBe(200);
+  });
+
+  it("uses a custom key function and message", async () => {
+    const limited = rateLimit({
+      windowMs: 1000,
+      max: 1,
+      key: (req) => req.headers.get("x-api-key") ?? "anonymous",
+      message: "Slow down",
+    })(() => success({}));
+
+    await limited(request("1.1.1.1", { "x-api-key": "k1" }));
+    const r = await limited(request("2.2.2.2", { "x-api-key": "k1" }));
+    expect(r.status).toBe(429);
+    expect((await r.json()).error).toBe("Slow down");
+  });
+
+  it("passes extra route arguments through", async () => {
+    const limited = rateLimit({ windowMs: 1000, max: 5 })(
+      (_req: Request, ctx: { params: { id: string } }) => success(ctx.params)
+    );
+    const r = await limited(request(), { params: { id: "7" } });
+    expect((await r.json()).data).toEqual({ id: "7" });
+  });
+});
+
+describe("sliding window strategy", () => {
+  it("weights the previous window", async () => {
+    const check = createRateLimiter({ windowMs: 60_000, max: 10 });
+    for (let i = 0; i < 10; i++) await check(request());
+    expect((await check(request())).limited).toBe(true);
+
+    // Halfway through the next window half of the previous hits still count
+    vi.advanceTimersByTime(90_000);
+    const results = [];
+    for (let i = 0; i < 6; i++) results.push(await check(request()));
+    expect(results.map((r) => r.limited)).toEqual([
+      false,
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+    expect(results[5].retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it("resets after two quiet windows", async () => {
+    const check = createRateLimiter({ windowMs: 1000, max: 1 });
+    await check(request());
+    expect((await check(request())).limited).toBe(true);
+    vi.advanceTimersByTime(2000);
+    expect((await check(request())).limited).toBe(false);
+  });
+});
+
+describe("token bucket strategy", () => {
+  it("refills tokens over time", async () => {
+    const check = createRateLimiter({
+      windowMs: 10_000,
+      max: 5,
+      strategy: "token-bucket",
+    });
+    for (let i = 0; i < 5; i++) {
+      expect((await check(request())).limited).toBe(false);
+    }
+
+    const blocked = await check(request());
+    expect(blocked.limited).toBe(true);
+    expect(blocked.retryAfterMs).toBe(2000);
+
+    vi.advanceTimersByTime(2000);
+    expect((await check(request())).limited).toBe(false);
+    expect((await check(request())).limited).toBe(true);
+  });
+});
+
+describe("stores", () => {
+  it("expires entries in the memory store", () => {
+    const store = new MemoryRateLimitStore();
+    store.set("a", { tokens: 1, updatedAt: 0 }, 1000);
+    expect(store.get("a")).toEqual({ tokens: 1, updatedAt: 0 });
+    vi.advanceTimersByTime(1000);
+    expect(store.get("a")).toBeUndefined();
+  });
+
+  it("evicts the least recently written keys past maxKeys", () => {
+    const store = new MemoryRateLimitStore(2);
+    const state = { tokens: 1, updatedAt: 0 };
+    store.set("a", state, 1000);
+    store.set("b", state, 1000);
+    store.set("a", state, 1000);
+    store.set("c", state, 1000);
+    expect(store.get("a")).toEqual(state);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toEqual(state);
+  });
+
+  it("works with an async custom store", async () => {
+    const data = new Map<string, RateLimitState>();
+    const store: RateLimitStore = {
+      get: async (key) => data.get(key),
+      set: async (key, state) => {
+        data.set(key, state);
+      },
+    };
+    const check = createRateLimiter({ windowMs: 1000, max: 1, store });
+    await check(request());
+    expect((await check(request())).limited).toBe(true);
+    expect([...data.keys()]).toEqual(["sliding-window:1.1.1.1"]);
+  });
+});
+
+describe("concurrent requests", () => {
+  const burst = async (check: (r: Request) => Promise<{ limited: boolean }>) =>
+    (
+      await Promise.all(Array.from({ length: 20 }, () => check(request())))
+    ).filter((result) => !result.limited).length;
+
+  it.each(["sliding-window", "token-bucket"] as const)(
+    "lets only max requests of a %s burst through",
+    async (strategy) => {
+      const limited = rateLimit({ windowMs: 60_000, max: 5, strategy })(
+        withHandler(() => success({}))
+      );
+      const responses = await Promise.all(
+        Array.from({ length: 20 }, () => limited(request()))
+      );
+      expect(responses.filter((r) => r.status === 200)).toHaveLength(5);
+    }
+  );
+
+  it("serializes get/set on async stores without update", async () => {
+    const data = new Map<string, RateLimitState>();
+    const store: RateLimitStore = {
+      get: async (key) => data.get(key),
+      set: async (key, state) => {
+        await Promise.resolve();
+        data.set(key, state);
+      },
+    };
+    const check = createRateLimiter({ windowMs: 1000, max: 3, store });
+    expect(await burst(check)).toBe(3);
+  });
+
+  it("uses the store's atomic update when available", async () => {
+    const memory = new MemoryRateLimitStore();
+    const update = vi.fn(memory.update.bind(memory));
+    const store: RateLimitStore = {
+      get: () => {
+        throw new Error("get should not be used");
+      },
+      set: () => {},
+      update,
+    };
+    const check = createRateLimiter({ windowMs: 1000, max: 2, store });
+    expect(await burst(check)).toBe(2);
+    expect(update).toHaveBeenCalledTimes(20);
+  });
+});
+
+describe("rateLimitMiddleware", () => {
+  it("limits createHandler pipelines", async () => {
+    const handler = createHandler()
+      .use(rateLimitMiddleware({ windowMs: 1000, max: 1 }))
+      .handle(() => success({}));
+
+    const ok = await handler(request());
+    expect(ok.headers.get("RateLimit-Remaining")).toBe("0");
+    expect((await handler(request())).status).toBe(429);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getRequestId } from "../src/request-id";
+import { createResponder, success, withHandler } from "../src/format";
+import { createHandler } from "../src/middleware";
+import { configure, getConfig } from "../src/config";
+import { ApiError } from "../src/errors";
+
+const request = (headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/orders", { headers });
+
+describe("getRequestId", () => {
+  it("propagates a valid incoming X-Request-Id", () => {
+    expect(getRequestId(request({ "X-Request-Id": "abc-123" }))).toBe(
+      "abc-123"
+    );
+  });
+
+  it("generates an id when the header is missing or unsafe", () => {
+    const generated = getRequestId(request());
+    expect(generated).toMatch(/^[0-9a-f-]{36}$/);
+
+    const unsafe = getRequestId(request({ "X-Request-Id": "a b <forged>" }));
+    expect(unsafe).not.toContain("forged");
+  });
+
+  it("returns the same id for the same request", () => {
+    const req = request();
+    expect(getRequestId(req)).toBe(getRequestId(req));
+  });
+
+  it("supports a custom header and generator", () => {
+    const options = { header: "X-Trace", generate: () => "gen-1" };
+    expect(getRequestId(request({ "X-Trace": "t-1" }), options)).toBe("t-1");
+    expect(getRequestId(request(), options)).toBe("gen-1");
+  });
+});
+
+describe("withHandler requestId option", () => {
+  it("sets the response header and adds the id to error bodies", async () => {
+    const handler = withHandler(
+      (_req: Request) => {
+        throw new ApiError("Out of stock", 409);
+      },
+      { requestId: true }
+    );
+    const r = await handler(request({ "X-Request-Id": "req-1" }));
+    expect(r.headers.get("X-Request-Id")).toBe("req-1");
+    expect(await r.json()).toEqual({
+      success: false,
+      error: "Out of stock",
+      requestId: "req-1",
+    });
+  });
+
+  it("adds the id to problem details", async () => {
+    const handler = withHandler(
+      (_req: Request) => {
+        throw new ApiError("Out of stock", 409);
+      },
+      { requestId: true, errorFormat: "problem" }
+    );
+    const json = await (
+      await handler(request({ "X-Request-Id": "req-2" }))
+    ).json();
+    expect(json.requestId).toBe("req-2");
+  });
+
+  it("sets the header on success responses too", async () => {
+    const handler = withHandler((_req: Request) => success([]), {
+      requestId: { header: "X-Correlation-Id" },
+    });
+    const r = await handler(request({ "X-Correlation-Id": "c-1" }));
+    expect(r.headers.get("X-Correlation-Id")).toBe("c-1");
+    expect(await r.json()).toEqual({ success: true, data: [] });
+  });
+
+  it("is off by default", async () => {
+    const handler = withHandler((_req: Request) => {
+      throw new ApiError("Nope", 400);
+    });
+    const r = await handler(request({ "X-Request-Id": "req-3" }));
+    expect(r.headers.get("X-Request-Id")).toBeNull();
+    expect(await r.json()).toEqual({ success: false, error: "Nope" });
+  });
+});
+
+describe("withHandler hooks", () => {
+  const original = getConfig().logger;
+  afterEach(() => configure({ logger: original }));
+
+  it("calls onRequest and onResponse with id, status and duration", async () => {
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const handler = withHandler((_req: Request) => success({ ok: true }), {
+      onRequest,
+      onResponse,
+    });
+    const req = request({ "X-Request-Id": "req-4" });
+    await handler(req);
+
+    expect(onRequest).toHaveBeenCalledWith({
+      request: req,
+      requestId: "req-4",
+    });
+    const event = onResponse.mock.calls[0][0];
+    expect(event.requestId).toBe("req-4");
+    expect(event.status).toBe(200);
+    expect(event.durationMs).toBeGreaterThanOrEqual(0);
+    expect(event.response).toBeInstanceOf(Response);
+  });
+
+  it("calls onError with the thrown error and mapped status", async () => {
+    const onError = vi.fn();
+    const thrown = new ApiError("Gone", 410);
+    const handler = withHandler(
+      (_req: Request) => {
+        throw thrown;
+      },
+      { onError }
+    );
+    await handler(request({ "X-Request-Id": "req-5" }));
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: thrown,
+        status: 410,
+        requestId: "req-5",
+      })
+    );
+  });
+
+  it("logs unhandled errors through the configured logger", async () => {
+    const logger = { error: vi.fn() };
+    configure({ logger });
+    const err = new Error("db down");
+    const handler = withHandler((_req: Request) => {
+      throw err;
+    });
+    const r = await handler(request({ "X-Request-Id": "req-6" }));
+
+    expect(r.status).toBe(500);
+    expect(logger.error).toHaveBeenCalledWith(
+      {
+        err,
+        requestId: "req-6",
+        method: "GET",
+        url: "http://localhost/api/orders",
+      },
+      "Unhandled error in API handler"
+    );
+  });
+
+  it("prefers a handler logger over the global one", async () => {
+    const global = { error: vi.fn() };
+    const local = { error: vi.fn() };
+    configure({ logger: global });
+    const handler = withHandler(
+      (_req: Request) => {
+        throw new Error("boom");
+      },
+      { logger: local }
+    );
+    await handler(request());
+    expect(local.error).toHaveBeenCalled();
+    expect(global.error).not.toHaveBeenCalled();
+  });
+
+  it("logs failing hooks and still returns the response", async () => {
+    const logger = { error: vi.fn() };
+    const hookError = new Error("log sink down");
+    const fail = () => {
+      throw hookError;
+    };
+    const ok = withHandler((_req: Request) => success({ ok: true }), {
+      logger,
+      onRequest: fail,
+      onResponse: async () => {
+        throw hookError;
+      },
+    });
+    const r = await ok(request({ "X-Request-Id": "req-8" }));
+    expect(r.status).toBe(200);
+    expect(await r.json()).toEqual({ success: true, data: { ok: true } });
+
+    const failing = withHandler(
+      (_req: Request) => {
+        throw new ApiError("Conflict", 409);
+      },
+      { logger, onError: fail, onResponse: fail }
+    );
+    expect((await failing(request())).status).toBe(409);
+
+    expect(logger.error).toHaveBeenCalledTimes(4);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ err: hookError, requestId: "req-8" }),
+      "Error in API handler hook"
+    );
+  });
+
+  it("runs responder-level hooks once per createHandler request", async () => {
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const onError = vi.fn();
+    const responder = createResponder({ onRequest, onResponse, onError });
+    const handler = createHandler({ responder, requestId: true })
+      .use((_req, _ctx, next) => next())
+      .handle(() => {
+        throw new ApiError("Nope", 403);
+      });
+
+    const r = await handler(request({ "X-Request-Id": "req-7" }));
+    expect(r.status).toBe(403);
+    expect(r.headers.get("X-Request-Id")).toBe("req-7");
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { sse, ndjson, sseEvent } from "../src/stream";
+import { ApiError } from "../src/errors";
+import { configure, getConfig } from "../src/config";
+
+async function* items<T>(values: T[], fail?: Error) {
+  for (const value of values) yield value;
+  if (fail) throw fail;
+}
+
+describe("sse", () => {
+  const { exposeErrors } = getConfig();
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    configure({ exposeErrors });
+  });
+
+  it("streams data events with SSE headers", async () => {
+    const res = sse(items([{ step: 1 }, "done"]), { heartbeatMs: 0 });
+    expect(res.headers.get("Content-Type")).toBe(
+      "text/event-stream; charset=utf-8"
+    );
+    expect(res.headers.get("Cache-Control")).toBe("no-cache, no-transform");
+    expect(await res.text()).toBe('data: {"step":1}\n\n' + "data: done\n\n");
+  });
+
+  it("sends event names, ids and retry fields", async () => {
+    const res = sse(
+      items([sseEvent({ pct: 50 }, { event: "progress", id: 1 })]),
+      { heartbeatMs: 0, retry: 3000 }
+    );
+    expect(await res.text()).toBe(
+      "retry: 3000\n\n" + 'event: progress\nid: 1\ndata: {"pct":50}\n\n'
+    );
+  });
+
+  it("rejects event names and ids that would inject fields", () => {
+    expect(() => sseEvent("hi", { id: "1\ndata: injected" })).toThrow(
+      "SSE ids must not contain line breaks or NUL"
+    );
+    expect(() => sseEvent("hi", { event: "a\rb" })).toThrow(
+      "SSE event names must not contain line breaks"
+    );
+    expect(() => sseEvent("hi", { id: "a\0b" })).toThrow(TypeError);
+  });
+
+  it("accepts retry only as a non-negative integer", () => {
+    expect(() => sseEvent("hi", { retry: -1 })).toThrow(
+      "SSE retry must be a non-negative integer"
+    );
+    expect(() => sseEvent("hi", { retry: 1.5 })).toThrow(TypeError);
+    expect(() => sse([], { retry: NaN })).toThrow(TypeError);
+    expect(sseEvent("hi", { retry: 0 }).options.retry).toBe(0);
+  });
+
+  it("splits multi-line data into several data fields", async () => {
+    const res = sse(["a\nb"], { heartbeatMs: 0 });
+    expect(await res.text()).toBe("data: a\ndata: b\n\n");
+  });
+
+  it("ends with an error event when the source throws", async () => {
+    const res = sse(items([1], new ApiError("Model overloaded", 503)), {
+      heartbeatMs: 0,
+    });
+    expect(await res.text()).toBe(
+      "data: 1\n\n" +
+        'event: error\ndata: {"success":false,"error":"Model overloaded"}\n\n'
+    );
+  });
+
+  it("hides unexpected error messages", async () => {
+    configure({ exposeErrors: false });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = sse(items([], new Error("db password wrong")), {
+      heartbeatMs: 0,
+    });
+    expect(await res.text()).toContain(
+      '{"success":false,"error":"Internal Server Error"}'
+    );
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("adds debug info to the error event when errors are exposed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = sse(items([], new Error("db timeout")), { heartbeatMs: 0 });
+    const data = (await res.text()).split("data: ")[1];
+    expect(JSON.parse(data).debug).toMatchObject({
+      name: "Error",
+      message: "db timeout",
+    });
+  });
+
+  it("sends heartbeat comments while waiting", async () => {
+    vi.useFakeTimers();
+    let release!: () => void;
+    const waiting = new Promise<void>((resolve) => (release = resolve));
+
+    const res = sse(
+      (async function* () {
+        await waiting;
+        yield "late";
+      })(),
+      { heartbeatMs: 1000 }
+    );
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+
+    const pending = reader.read();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(decoder.decode((await pending).value)).toBe(": heartbeat\n\n");
+
+    release();
+    expect(decoder.decode((await reader.read()).value)).toBe("data: late\n\n");
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it("stops cleanly when the signal aborts", async () => {
+    const controller = new AbortController();
+    let finished = false;
+
+    const res = sse(
+      (async function* () {
+        try {
+          for (let i = 0; ; i++) yield i;
+        } finally {
+          finished = true;
+        }
+      })(),
+      { heartbeatMs: 0, signal: controller.signal }
+    );
+    const reader = res.body!.getReader();
+
+    await reader.read();
+    controller.abort();
+    let done = false;
+    while (!done) done = (await reader.read()).done;
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(finished).toBe(true);
+  });
+
+  it("accepts response options", async () => {
+    const res = sse([], {
+      heartbeatMs: 0,
+      headers: { "X-Stream": "1" },
+      status: 201,
+    });
+    expect(res.status).toBe(201);
+    expect(res.headers.get("X-Stream")).toBe("1");
+  });
+});
+
+describe("ndjson", () => {
+  it("writes one JSON value per line", async () => {
+    const res = ndjson(items([{ id: 1 }, { id: 2 }]));
+    expect(res.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(await res.text()).toBe('{"id":1}\n{"id":2}\n');
+  });
+
+  it("ends with an error line when the source throws", async () => {
+    const res = ndjson(items([{ id: 1 }], new ApiError("Export failed", 500)));
+    const lines = (await res.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      { id: 1 },
+      { success: false, error: "Export failed" },
+    ]);
+  });
+
+  it("returns an empty stream when already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const res = ndjson(items([1, 2]), { signal: controller.signal });
+    expect(await res.text()).toBe("");
+  });
+});
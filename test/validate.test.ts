@@ -0,0 +1,973 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import {
+  validate,
+  validatePartial,
+  sanitize,
+  validateAndSanitize,
+  validateQuery,
+  defineSchema,
+  defineRule,
+  createValidator,
+  refine,
+  validateAsync,
+  validatePartialAsync,
+  ValidationError,
+} from "../src/validate";
+import type { Infer } from "../src/validate";
+import type { ValidationRule, ValidationSchema } from "../src/validate";
+
+const getError = (fn: () => unknown): ValidationError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ValidationError) return err;
+    throw err;
+  }
+  throw new Error("Expected a ValidationError");
+};
+
+describe("nested schemas", () => {
+  const schema: ValidationSchema = {
+    name: "string",
+    address: {
+      schema: {
+        street: "string",
+        zip: ["string", { pattern: /^\d{5}$/ }],
+        geo: ["object?", { schema: { lat: "number", lng: "number" } }],
+      },
+    },
+  };
+
+  it("accepts valid nested data", () => {
+    const data = {
+      name: "Jane",
+      address: { street: "Main St", zip: "12345" },
+    };
+    expect(validate(data, schema)).toEqual(data);
+  });
+
+  it("reports nested errors with dotted paths", () => {
+    const err = getError(() =>
+      validate(
+        { name: "Jane", address: { zip: "abc", geo: { lat: "north" } } },
+        schema
+      )
+    );
+    expect(err.fields).toEqual({
+      "address.street": ["is required"],
+      "address.zip": ["does not match required pattern"],
+      "address.geo.lat": ["must be a number"],
+      "address.geo.lng": ["is required"],
+    });
+    expect(err.message).toContain("address.zip: does not match");
+  });
+
+  it("requires a nested object without a type rule", () => {
+    const err = getError(() => validate({ name: "Jane" }, schema));
+    expect(err.fields).toEqual({ address: ["is required"] });
+  });
+
+  it("rejects non-object values for a nested schema", () => {
+    const err = getError(() =>
+      validate({ name: "Jane", address: "Main St" }, schema)
+    );
+    expect(err.fields).toEqual({ address: ["must be an object"] });
+  });
+
+  it("leaves optional nested objects alone when absent", () => {
+    const data = { name: "Jane", address: { street: "A", zip: "12345" } };
+    expect(() => validate(data, schema)).not.toThrow();
+  });
+
+  it("only validates present nested fields in partial mode", () => {
+    expect(validatePartial({ address: { zip: "12345" } }, schema)).toEqual({
+      address: { zip: "12345" },
+    });
+
+    const err = getError(() =>
+      validatePartial({ address: { zip: "1" } }, schema)
+    );
+    expect(err.fields).toEqual({
+      "address.zip": ["does not match required pattern"],
+    });
+  });
+
+  it("strips unknown nested keys", () => {
+    const out = sanitize(
+      {
+        name: "Jane",
+        role: "admin",
+        address: {
+          street: "Main St",
+          zip: "12345",
+          isAdmin: true,
+          geo: { lat: 1, lng: 2, alt: 3 },
+        },
+      },
+      schema
+    );
+    expect(out).toEqual({
+      name: "Jane",
+      address: { street: "Main St", zip: "12345", geo: { lat: 1, lng: 2 } },
+    });
+  });
+
+  it("validates and sanitizes nested data together", () => {
+    const out = validateAndSanitize(
+      { name: "Jane", address: { street: "A", zip: "12345", extra: 1 } },
+      schema
+    );
+    expect(out).toEqual({
+      name: "Jane",
+      address: { street: "A", zip: "12345" },
+    });
+  });
+});
+
+describe("array item schemas", () => {
+  it("applies a single rule to every element", () => {
+    const err = getError(() =>
+      validate(
+        { tags: ["a", "b", 3] },
+        { tags: ["array", { items: "string" }] }
+      )
+    );
+    expect(err.fields).toEqual({ "tags[2]": ["must be a string"] });
+  });
+
+  it("applies a rule list to every element", () => {
+    const schema: ValidationSchema = {
+      scores: { items: ["number", { min: 0 }, { max: 10 }] },
+    };
+    expect(validate({ scores: [0, 5, 10] }, schema)).toEqual({
+      scores: [0, 5, 10],
+    });
+
+    const err = getError(() => validate({ scores: [1, -1, 11] }, schema));
+    expect(err.fields).toEqual({
+      "scores[1]": ["must be at least 0"],
+      "scores[2]": ["must be at most 10"],
+    });
+  });
+
+  it("validates object elements against a nested schema", () => {
+    const schema: ValidationSchema = {
+      lines: [
+        "array",
+        { minLength: 1 },
+        { items: { schema: { sku: "string", qty: ["number", { min: 1 }] } } },
+      ],
+    };
+    const err = getError(() =>
+      validate({ lines: [{ sku: "A1", qty: 0 }, { qty: 2 }, "x"] }, schema)
+    );
+    expect(err.fields).toEqual({
+      "lines[0].qty": ["must be at least 1"],
+      "lines[1].sku": ["is required"],
+      "lines[2]": ["must be an object"],
+    });
+  });
+
+  it("supports arrays of arrays", () => {
+    const err = getError(() =>
+      validate(
+        {
+          matrix: [
+            [1, 2],
+            [3, "4"],
+          ],
+        },
+        { matrix: { items: ["array", { items: "number" }] } }
+      )
+    );
+    expect(err.fields).toEqual({ "matrix[1][1]": ["must be a number"] });
+  });
+
+  it("leaves presence checks to the type rule", () => {
+    const schema: ValidationSchema = { tags: ["array?", { items: "string" }] };
+    expect(validate({}, schema)).toEqual({});
+
+    expect(
+      getError(() => validate({}, { tags: { items: "string" } })).fields
+    ).toEqual({ tags: ["is required"] });
+    expect(
+      getError(() => validate({ tags: "a" }, { tags: { items: "string" } }))
+        .fields
+    ).toEqual({ tags: ["must be an array"] });
+  });
+
+  it("strips unknown keys inside object elements", () => {
+    const out = sanitize(
+      { lines: [{ sku: "A1", qty: 1, price: 0 }, "raw"], extra: true },
+      { lines: { items: { schema: { sku: "string", qty: "number" } } } }
+    );
+    expect(out).toEqual({ lines: [{ sku: "A1", qty: 1 }, "raw"] });
+  });
+});
+
+describe("schema type inference", () => {
+  const userSchema = defineSchema({
+    name: ["string", { minLength: 2 }],
+    age: "number?",
+    role: { enum: ["user", "admin"] },
+    email: "email",
+    tags: ["array", { items: "string" }],
+    address: {
+      schema: { street: "string", zip: "string?" },
+    },
+    score: [{ min: 0 }, { max: 100 }],
+  });
+
+  type User = {
+    name: string;
+    age?: number | undefined;
+    role: "user" | "admin";
+    email: string;
+    tags: string[];
+    address: { street: string; zip?: string | undefined };
+    score: number;
+  };
+
+  it("infers the validated type from a schema", () => {
+    expectTypeOf<Infer<typeof userSchema>>().toEqualTypeOf<User>();
+
+    const data = {
+      name: "Jane",
+      role: "admin",
+      email: "jane@example.com",
+      tags: ["a"],
+      address: { street: "Main St" },
+      score: 10,
+    };
+    const user = validate(data, userSchema);
+    expectTypeOf(user).toEqualTypeOf<User>();
+    expect(user.role).toBe("admin");
+  });
+
+  it("infers from schemas declared as const", () => {
+    const schema = { id: "number", note: ["string?"] } as const;
+    expectTypeOf(validate({ id: 1 }, schema)).toEqualTypeOf<{
+      id: number;
+      note?: string | undefined;
+    }>();
+  });
+
+  it("infers from inline schemas", () => {
+    const out = validate({ ok: true }, { ok: "boolean" });
+    expectTypeOf(out).toEqualTypeOf<{ ok: boolean }>();
+  });
+
+  it("infers a partial type from validatePartial", () => {
+    const out = validatePartial({ name: "Jo" }, userSchema);
+    expectTypeOf(out).toEqualTypeOf<Partial<User>>();
+  });
+
+  it("still accepts an explicit result type", () => {
+    const out = validate<{ id: number }>({ id: 1 }, { id: "number" });
+    expectTypeOf(out).toEqualTypeOf<{ id: number }>();
+  });
+});
+
+describe("coercion", () => {
+  const schema = defineSchema({
+    page: ["number", { min: 1 }],
+    limit: "number?",
+    active: "boolean?",
+    tags: ["array?", { items: "string" }],
+    ids: { items: "number" },
+  });
+
+  it("converts strings before the rules run", () => {
+    const out = validate(
+      { page: "2", limit: " 10 ", active: "true", tags: "a", ids: ["1", "2"] },
+      schema,
+      { coerce: true }
+    );
+    expect(out).toEqual({
+      page: 2,
+      limit: 10,
+      active: true,
+      tags: ["a"],
+      ids: [1, 2],
+    });
+  });
+
+  it("does not coerce unless asked", () => {
+    expect(() => validate({ page: "2", ids: [] }, schema)).toThrow(
+      ValidationError
+    );
+  });
+
+  it("does not mutate the input", () => {
+    const input = { page: "2", ids: "3" };
+    validate(input, schema, { coerce: true });
+    expect(input).toEqual({ page: "2", ids: "3" });
+  });
+
+  it("treats empty strings as missing", () => {
+    const out = validate({ page: "1", limit: "", ids: [] }, schema, {
+      coerce: true,
+    });
+    expect(out.limit).toBeUndefined();
+
+    const err = getError(() =>
+      validate({ page: "", ids: [] }, schema, { coerce: true })
+    );
+    expect(err.fields.page).toContain("is required");
+  });
+
+  it("reports values that cannot be coerced", () => {
+    const err = getError(() =>
+      validate({ page: "abc", active: "yes", ids: ["1", "x"] }, schema, {
+        coerce: true,
+      })
+    );
+    expect(err.fields).toEqual({
+      page: ["must be a number", "must be at least 1"],
+      active: ["must be a boolean"],
+      "ids[1]": ["must be a number"],
+    });
+  });
+
+  it("coerces inside nested schemas", () => {
+    const out = validatePartial(
+      { filter: { minPrice: "9.5" } },
+      { filter: { schema: { minPrice: "number" } } },
+      { coerce: true }
+    );
+    expect(out).toEqual({ filter: { minPrice: 9.5 } });
+  });
+});
+
+describe("validateQuery", () => {
+  const schema = defineSchema({
+    page: "number",
+    sort: "string?",
+    tag: ["array?", { items: "string" }],
+  });
+
+  it("validates URLSearchParams with repeated keys", () => {
+    const params = new URLSearchParams("page=3&tag=a&tag=b&sort=name");
+    expect(validateQuery(params, schema)).toEqual({
+      page: 3,
+      sort: "name",
+      tag: ["a", "b"],
+    });
+  });
+
+  it("validates FormData", () => {
+    const form = new FormData();
+    form.append("page", "1");
+    form.append("tag", "only");
+    expect(validateQuery(form, schema)).toEqual({ page: 1, tag: ["only"] });
+  });
+
+  it("validates route params objects", () => {
+    expect(validateQuery({ page: "7" }, schema)).toEqual({ page: 7 });
+  });
+
+  it("throws field errors for bad input", () => {
+    const err = getError(() =>
+      validateQuery(new URLSearchParams("page=two"), schema)
+    );
+    expect(err.fields).toEqual({ page: ["must be a number"] });
+  });
+});
+
+describe("localized messages", () => {
+  const schema: ValidationSchema = {
+    name: "string",
+    age: ["number", { min: 18 }],
+    role: { enum: ["admin", "user"] },
+  };
+  const bad = { age: 12, role: "guest" };
+
+  it("uses the requested locale for fields and message", () => {
+    const err = getError(() => validate(bad, schema, { locale: "de" }));
+    expect(err.fields).toEqual({
+      name: ["ist erforderlich"],
+      age: ["muss mindestens 18 sein"],
+      role: ["muss einer der folgenden Werte sein: admin, user"],
+    });
+    expect(err.message).toContain("age: muss mindestens 18 sein");
+  });
+
+  it("falls back to the base language, then English", () => {
+    const err = getError(() => validate(bad, schema, { locale: "es-MX" }));
+    expect(err.fields.name).toEqual(["es obligatorio"]);
+
+    const unknown = getError(() => validate(bad, schema, { locale: "fr" }));
+    expect(unknown.fields.name).toEqual(["is required"]);
+  });
+
+  it("localizes validatePartial and non-object input", () => {
+    const err = getError(() =>
+      validatePartial({ age: 3 }, schema, { locale: "es" })
+    );
+    expect(err.fields).toEqual({ age: ["debe ser al menos 18"] });
+
+    expect(
+      getError(() => validate(null, schema, { locale: "de" })).message
+    ).toBe("Daten müssen ein Objekt sein");
+  });
+
+  it("lets a rule override its message with parameters", () => {
+    const err = getError(() =>
+      validate(
+        { password: "abc" },
+        {
+          password: [
+            "string",
+            { minLength: 8, message: "needs {minLength}+ characters" },
+          ],
+        }
+      )
+    );
+    expect(err.fields).toEqual({ password: ["needs 8+ characters"] });
+  });
+
+  it("keeps overrides on rules with inferred types", () => {
+    const typed = defineSchema({
+      role: { enum: ["a", "b"], message: "pick a or b" },
+    });
+    expectTypeOf(validate({ role: "a" }, typed)).toEqualTypeOf<{
+      role: "a" | "b";
+    }>();
+  });
+});
+
+describe("validation issues", () => {
+  const schema: ValidationSchema = {
+    username: ["string", { minLength: 3 }, { pattern: /^[a-z]+$/ }],
+    age: ["number", { min: 18 }],
+    role: { enum: ["admin", "user"] },
+  };
+  const bad = { username: "A1", age: 12, role: "guest" };
+
+  it("records a structured issue for every failure", () => {
+    const err = getError(() => validate(bad, schema));
+    expect(err.issues).toEqual([
+      {
+        path: "username",
+        code: "minLength",
+        params: { minLength: 3 },
+        message: "must be at least 3 characters",
+      },
+      {
+        path: "username",
+        code: "pattern",
+        params: { pattern: "^[a-z]+$" },
+        message: "does not match required pattern",
+      },
+      {
+        path: "age",
+        code: "min",
+        params: { min: 18 },
+        message: "must be at least 18",
+      },
+      {
+        path: "role",
+        code: "enum",
+        params: { enum: ["admin", "user"] },
+        message: "must be one of: admin, user",
+      },
+    ]);
+    expect(err.fields.username).toHaveLength(2);
+  });
+
+  it("uses nested paths and localized messages", () => {
+    const err = getError(() =>
+      validate(
+        { tags: ["ok", 5] },
+        { tags: { items: "string" } },
+        { locale: "es" }
+      )
+    );
+    expect(err.issues).toEqual([
+      {
+        path: "tags[1]",
+        code: "string",
+        params: {},
+        message: "debe ser una cadena de texto",
+      },
+    ]);
+  });
+
+  it("stops at the first failure with abortEarly", () => {
+    const err = getError(() => validate(bad, schema, { abortEarly: true }));
+    expect(err.issues).toHaveLength(1);
+    expect(err.fields).toEqual({ username: ["must be at least 3 characters"] });
+  });
+
+  it("caps the number of failures with maxErrors", () => {
+    const err = getError(() => validate(bad, schema, { maxErrors: 3 }));
+    expect(err.issues.map((issue) => issue.code)).toEqual([
+      "minLength",
+      "pattern",
+      "min",
+    ]);
+  });
+
+  it("defaults to no issues for hand-made errors", () => {
+    expect(new ValidationError("Bad", { a: ["bad"] }).issues).toEqual([]);
+  });
+});
+
+describe("format rules", () => {
+  const fails = (rule: ValidationRule, value: unknown) =>
+    Object.keys(getError(() => validate({ v: value }, { v: rule })).fields);
+
+  it.each([
+    ["uuid", "3f0c7a4e-8b1d-4c2a-9e5f-0a1b2c3d4e5f", "3f0c7a4e-8b1d-4c2a"],
+    ["integer", 42, 4.2],
+    ["date", "2024-02-29", "2023-02-29"],
+    ["datetime", "2024-05-01T12:30:00.123+02:00", "2024-05-01 12:30"],
+    ["ipv4", "192.168.0.1", "256.1.1.1"],
+    ["ipv6", "2001:db8::ff00:42:8329", "2001:db8:::1"],
+    ["hostname", "api.example-1.com", "-bad.example.com"],
+    ["hex", "deadBEEF", "0xzz"],
+    ["base64", "aGVsbG8=", "aGVsbG8"],
+    ["slug", "hello-world-2", "Hello World"],
+    ["phone", "+14155552671", "0155 5526"],
+    ["json", '{"a":[1,2]}', "{a:1}"],
+    ["cuid", "cjld2cjxh0000qzrmn831i7rn", "not-a-cuid"],
+  ] as const)("checks %s", (rule, valid, invalid) => {
+    expect(validate({ v: valid }, { v: rule })).toEqual({ v: valid });
+    expect(fails(rule, invalid)).toEqual(["v"]);
+    expect(validate({}, { v: `${rule}?` })).toEqual({});
+  });
+
+  it("reports the format as the issue code", () => {
+    const err = getError(() => validate({ id: "x" }, { id: "uuid" }));
+    expect(err.issues[0]).toMatchObject({
+      code: "uuid",
+      message: "must be a valid UUID",
+    });
+  });
+
+  it("uses a stricter email check", () => {
+    const schema = { email: "email" } as const;
+    expect(
+      validate({ email: "jane.doe+tag@mail.example.com" }, schema)
+    ).toEqual({ email: "jane.doe+tag@mail.example.com" });
+    for (const email of [
+      "a@b",
+      "a..b@c.com",
+      ".a@b.com",
+      "a@-b.com",
+      "a b@c.com",
+    ]) {
+      expect(fails("email", email)).toEqual(["v"]);
+    }
+  });
+
+  it("checks date ranges with after and before", () => {
+    const schema = {
+      startsAt: ["datetime", { after: "2024-01-01T00:00:00Z" }],
+      endsAt: { before: new Date("2025-01-01T00:00:00Z") },
+    } as const;
+    expect(
+      validate(
+        { startsAt: "2024-06-01T09:00:00Z", endsAt: new Date("2024-12-31") },
+        schema
+      )
+    ).toBeTruthy();
+
+    const err = getError(() =>
+      validate({ startsAt: "2023-12-31T23:59:59Z", endsAt: "soon" }, schema)
+    );
+    expect(err.fields).toEqual({
+      startsAt: ["must be after 2024-01-01T00:00:00Z"],
+      endsAt: ["must be before 2025-01-01T00:00:00.000Z"],
+    });
+  });
+
+  it("checks multipleOf and exclusiveMin", () => {
+    const schema = {
+      price: ["number", { exclusiveMin: 0 }, { multipleOf: 0.01 }],
+    } as const;
+    expect(validate({ price: 19.99 }, schema)).toEqual({ price: 19.99 });
+
+    expect(getError(() => validate({ price: 0 }, schema)).fields).toEqual({
+      price: ["must be greater than 0"],
+    });
+    expect(getError(() => validate({ price: 1.005 }, schema)).fields).toEqual({
+      price: ["must be a multiple of 0.01"],
+    });
+  });
+
+  it("coerces integers from query strings", () => {
+    const query = new URLSearchParams("page=2&size=2.5");
+    const err = getError(() =>
+      validateQuery(query, { page: "integer", size: "integer" })
+    );
+    expect(err.fields).toEqual({ size: ["must be an integer"] });
+  });
+
+  it("infers value types for format rules", () => {
+    const out = validate(
+      { id: "3f0c7a4e-8b1d-4c2a-9e5f-0a1b2c3d4e5f", n: 1 },
+      { id: "uuid", n: ["integer", { multipleOf: 1 }], at: "datetime?" }
+    );
+    expectTypeOf(out).toEqualTypeOf<{
+      id: string;
+      n: number;
+      at?: string | undefined;
+    }>();
+  });
+
+  it("localizes format messages", () => {
+    const err = getError(() =>
+      validate({ ip: "x" }, { ip: "ipv4" }, { locale: "de" })
+    );
+    expect(err.fields).toEqual({ ip: ["muss eine gültige IPv4-Adresse sein"] });
+  });
+});
+
+describe("named rules", () => {
+  const slug = defineRule("slug", {
+    check: (value): value is string =>
+      typeof value === "string" && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value),
+    message: "must be a slug",
+  });
+  const even = defineRule("even", {
+    check: (value) => typeof value === "number" && value % 2 === 0,
+    coerce: (value) => Number(value),
+  });
+  const v = createValidator({ rules: [slug, even] });
+
+  it("validates registered rules and their optional variants", () => {
+    expect(v.validate({ handle: "my-post" }, { handle: "slug" })).toEqual({
+      handle: "my-post",
+    });
+    expect(v.validate({}, { handle: "slug?" })).toEqual({});
+
+    const err = getError(() =>
+      v.validate({ handle: "My Post" }, { handle: ["string", "slug"] })
+    );
+    expect(err.fields).toEqual({ handle: ["must be a slug"] });
+    expect(err.issues[0]).toMatchObject({ path: "handle", code: "slug" });
+
+    const missing = getError(() => v.validate({}, { handle: "slug" }));
+    expect(missing.fields).toEqual({ handle: ["is required"] });
+  });
+
+  it("falls back to the localized invalid message", () => {
+    const err = getError(() =>
+      v.validate({ n: 3 }, { n: "even" }, { locale: "de" })
+    );
+    expect(err.fields).toEqual({ n: ["ist ungültig"] });
+  });
+
+  it("works in nested schemas, items and partial validation", () => {
+    const schema = {
+      post: { schema: { slug: "slug" } },
+      tags: { items: "slug" },
+    } as const;
+    const err = getError(() =>
+      v.validate({ post: { slug: "A" }, tags: ["ok", "Not ok"] }, schema)
+    );
+    expect(Object.keys(err.fields)).toEqual(["post.slug", "tags[1]"]);
+    expect(v.validatePartial({ tags: ["a-b"] }, schema)).toEqual({
+      tags: ["a-b"],
+    });
+  });
+
+  it("applies a rule's coerce in validateQuery", () => {
+    const query = new URLSearchParams("page=4");
+    expect(v.validateQuery(query, { page: "even" })).toEqual({ page: 4 });
+  });
+
+  it("sanitizes before validating", () => {
+    expect(
+      v.validateAndSanitize({ handle: "a", extra: 1 }, { handle: "slug" })
+    ).toEqual({ handle: "a" });
+  });
+
+  it("reflects rule names and types in the schema types", () => {
+    const out = v.validate({ handle: "a" }, { handle: "slug", n: "even?" });
+    expectTypeOf(out).toEqualTypeOf<{ handle: string; n?: unknown }>();
+
+    // @ts-expect-error typo in a rule name
+    v.validate({ handle: "a" }, { handle: "slgu" });
+    // @ts-expect-error registered rules are unknown to the plain validate
+    validate({ n: 2 }, { n: "even" });
+  });
+});
+
+describe("refinements", () => {
+  const signup = refine(
+    {
+      password: ["string", { minLength: 8 }],
+      passwordConfirm: "string",
+      email: "email?",
+      phone: "phone?",
+    },
+    (data) =>
+      data.password === data.passwordConfirm
+        ? undefined
+        : { path: "passwordConfirm", message: "must match password" },
+    (data) =>
+      data.email || data.phone
+        ? undefined
+        : [
+            { path: "email", code: "required" },
+            { path: "phone", code: "required" },
+          ]
+  );
+
+  it("receives the whole object and attaches errors to paths", () => {
+    const err = getError(() =>
+      validate({ password: "secret123", passwordConfirm: "secret124" }, signup)
+    );
+    expect(err.fields).toEqual({
+      passwordConfirm: ["must match password"],
+      email: ["is required"],
+      phone: ["is required"],
+    });
+    expect(err.issues[0]).toEqual({
+      path: "passwordConfirm",
+      code: "custom",
+      params: {},
+      message: "must match password",
+    });
+  });
+
+  it("passes when every refinement passes", () => {
+    const data = {
+      password: "secret123",
+      passwordConfirm: "secret123",
+      email: "a@b.com",
+    };
+    expect(validate(data, signup)).toEqual(data);
+  });
+
+  it("only runs after the field rules pass", () => {
+    const err = getError(() =>
+      validate({ password: "short", passwordConfirm: "other" }, signup)
+    );
+    expect(err.fields).toEqual({ password: ["must be at least 8 characters"] });
+  });
+
+  it("skips plain refinements in validatePartial", () => {
+    expect(validatePartial({ password: "newpassword" }, signup)).toEqual({
+      password: "newpassword",
+    });
+  });
+
+  it("runs partial refinements in validatePartial with the fields sent", () => {
+    const range = refine(
+      { startDate: "date", endDate: "date" },
+      {
+        partial: true,
+        check: ({ startDate, endDate }) => {
+          expectTypeOf(endDate).toEqualTypeOf<string | undefined>();
+          return startDate && endDate && endDate < startDate
+            ? { path: "endDate", message: "must be after startDate" }
+            : undefined;
+        },
+      }
+    );
+    expect(validatePartial({ endDate: "2024-01-01" }, range)).toEqual({
+      endDate: "2024-01-01",
+    });
+    const err = getError(() =>
+      validatePartial({ startDate: "2024-02-01", endDate: "2024-01-01" }, range)
+    );
+    expect(err.fields).toEqual({ endDate: ["must be after startDate"] });
+    expect(
+      getError(() =>
+        validate({ startDate: "2024-02-01", endDate: "2024-01-01" }, range)
+      ).fields
+    ).toEqual({ endDate: ["must be after startDate"] });
+  });
+
+  it("prefixes paths of refined nested schemas", () => {
+    const schema = {
+      stay: {
+        schema: refine({ nights: "integer", guests: "integer" }, (stay) =>
+          stay.guests <= stay.nights * 4
+            ? undefined
+            : { path: "", message: "too many guests" }
+        ),
+      },
+    } as const;
+    const err = getError(() =>
+      validate({ stay: { nights: 1, guests: 5 } }, schema)
+    );
+    expect(err.fields).toEqual({ stay: ["too many guests"] });
+  });
+
+  it("types the refinement data from the schema", () => {
+    refine({ age: "number", nick: "string?" }, (data) => {
+      expectTypeOf(data).toEqualTypeOf<{
+        age: number;
+        nick?: string | undefined;
+      }>();
+    });
+  });
+});
+
+describe("async validation", () => {
+  const getAsyncError = async (promise: Promise<unknown>) => {
+    const err = await promise.catch((e: unknown) => e);
+    if (err instanceof ValidationError) return err;
+    throw new Error("Expected a ValidationError");
+  };
+  const taken = ["admin", "root"];
+  const isFree = async (name: string) =>
+    !taken.includes(name) || "is already taken";
+
+  it("awaits async custom rules", async () => {
+    const schema = {
+      username: ["string", { custom: isFree }],
+    } as const;
+    await expect(validateAsync({ username: "jane" }, schema)).resolves.toEqual({
+      username: "jane",
+    });
+
+    const err = await getAsyncError(
+      validateAsync({ username: "root" }, schema)
+    );
+    expect(err.fields).toEqual({ username: ["is already taken"] });
+    expect(err.issues[0]).toMatchObject({ path: "username", code: "custom" });
+  });
+
+  it("collects sync and async failures into one error", async () => {
+    const err = await getAsyncError(
+      validateAsync(
+        { username: "admin", age: 12, projectId: "p-9" },
+        {
+          username: ["string", { custom: isFree }],
+          age: ["number", { min: 18 }],
+          projectId: {
+            custom: async () => false,
+            message: "does not exist",
+          },
+        }
+      )
+    );
+    expect(err.fields).toEqual({
+      age: ["must be at least 18"],
+      username: ["is already taken"],
+      projectId: ["does not exist"],
+    });
+  });
+
+  it("skips async rules when the field's sync rules failed", async () => {
+    const lookup = vi.fn(async () => true);
+    const err = await getAsyncError(
+      validateAsync(
+        { username: "a" },
+        { username: ["string", { custom: lookup }, { minLength: 3 }] }
+      )
+    );
+    expect(err.fields).toEqual({ username: ["must be at least 3 characters"] });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("skips async rules after a sync custom rule failed", async () => {
+    const isHandle = (value: string) => /^[a-z0-9_]+$/.test(value);
+    const isNotTaken = vi.fn(async () => true);
+    const err = await getAsyncError(
+      validateAsync(
+        { username: "Bad Name!", other: "x" },
+        {
+          username: ["string", { custom: isHandle }, { custom: isNotTaken }],
+          other: { custom: isNotTaken },
+        }
+      )
+    );
+    expect(err.fields).toEqual({ username: ["failed custom validation"] });
+    expect(isNotTaken).toHaveBeenCalledTimes(1);
+    expect(isNotTaken).toHaveBeenCalledWith("x");
+  });
+
+  it("limits how many rules run at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const slow = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return true;
+    };
+    const schema = Object.fromEntries(
+      ["a", "b", "c", "d", "e"].map((key) => [key, { custom: slow }])
+    );
+    const data = { a: 1, b: 2, c: 3, d: 4, e: 5 };
+
+    await validateAsync(data, schema, { concurrency: 2 });
+    expect(peak).toBe(2);
+  });
+
+  it("fails rules that exceed the timeout", async () => {
+    const never = () => new Promise<boolean>(() => {});
+    const err = await getAsyncError(
+      validateAsync({ slug: "x" }, { slug: { custom: never } }, { timeout: 10 })
+    );
+    expect(err.fields).toEqual({ slug: ["could not be validated in time"] });
+    expect(err.issues[0]).toMatchObject({
+      code: "timeout",
+      params: { timeout: 10 },
+    });
+  });
+
+  it("runs refinements after async rules pass", async () => {
+    const refinement = vi.fn(() => undefined);
+    const schema = refine({ username: { custom: isFree } }, refinement);
+
+    await getAsyncError(validateAsync({ username: "root" }, schema));
+    expect(refinement).not.toHaveBeenCalled();
+
+    await validateAsync({ username: "jane" }, schema);
+    expect(refinement).toHaveBeenCalledWith({ username: "jane" });
+  });
+
+  it("validates only the provided fields with validatePartialAsync", async () => {
+    const check = vi.fn(isFree);
+    const schema = { username: { custom: check }, bio: "string" } as const;
+    const out = await validatePartialAsync({ bio: "hi" }, schema);
+
+    expect(out).toEqual({ bio: "hi" });
+    expect(check).not.toHaveBeenCalled();
+    expectTypeOf(out).toEqualTypeOf<
+      Partial<{ username: unknown; bio: string }>
+    >();
+  });
+
+  it("is available on createValidator", async () => {
+    const even = defineRule("even", {
+      check: (value) => typeof value === "number" && value % 2 === 0,
+    });
+    const v = createValidator({ rules: [even] });
+    const err = await getAsyncError(
+      v.validateAsync(
+        { n: 3, name: "root" },
+        { n: "even", name: { custom: isFree } }
+      )
+    );
+    expect(err.fields).toEqual({
+      n: ["is invalid"],
+      name: ["is already taken"],
+    });
+  });
+
+  it("propagates errors thrown by rules", async () => {
+    const failing = async () => {
+      throw new Error("db down");
+    };
+    await expect(
+      validateAsync({ id: 1 }, { id: { custom: failing } })
+    ).rejects.toThrow("db down");
+  });
+
+  it("rejects async rules in the sync functions", () => {
+    expect(() =>
+      validate({ username: "jane" }, { username: { custom: isFree } })
+    ).toThrow(
+      'Custom rule for "username" returned a Promise, use validateAsync'
+    );
+  });
+});